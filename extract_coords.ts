@@ -1,62 +1,1458 @@
-#!/usr/bin/env -S deno run --allow-read --allow-run
+#!/usr/bin/env -S deno run --allow-read --allow-write --allow-run
 // extract_coords.ts
 //
 // Usage:
-//   deno run --allow-run --allow-read extract_coords.ts <glob_or_path> [more_paths...] [--csv]
+//   deno run --allow-run --allow-read extract_coords.ts <glob_or_path> [more_paths...] [--csv | --format <fmt>] [--ext mov,mp4]
+//   deno run --allow-run --allow-read --allow-write extract_coords.ts organize <glob_or_path> [more_paths...] --dest <dir>
+//   deno run --allow-read --allow-write extract_coords.ts undo <manifest.json>
 //
 // Examples:
 //   deno run --allow-run --allow-read extract_coords.ts ./videos/**/*.MOV
 //   deno run --allow-run --allow-read extract_coords.ts ./myvideo.MOV --csv
-//   deno run --allow-run --allow-read extract_coords.ts ./folder1 ./folder2/**/*.MOV --csv
+//   deno run --allow-run --allow-read extract_coords.ts ./folder1 ./folder2/**/*.MP4 --csv
+//   deno run --allow-run --allow-read extract_coords.ts ./DCIM --ext heic,jpg
+//   deno run --allow-run --allow-read extract_coords.ts ./trip --format gpx --gpx-track > trip.gpx
+//   deno run --allow-run --allow-read extract_coords.ts ./GX010042.MP4 --track --format geojson
+//   deno run --allow-run --allow-read extract_coords.ts ./trip --geocode ~/geonames/cities500.txt --csv
+//   deno run --allow-run --allow-read extract_coords.ts ./trip --format tsv --columns file,creationDate --tz Europe/Paris
+//   deno run --allow-run --allow-read --allow-write extract_coords.ts organize ./DCIM --dest ~/Media --geocode ~/geonames/cities500.txt
 
 import { expandGlob } from "https://deno.land/std@0.224.0/fs/mod.ts";
+import { parse } from "https://deno.land/std@0.224.0/flags/mod.ts";
+
+// Extensions picked up from directories and globs, unless --ext is given
+const VIDEO_EXTENSIONS = [
+	"mov",
+	"mp4",
+	"m4v",
+	"3gp",
+	"mts",
+	"m2ts",
+	"avi",
+	"insv", // Insta360
+	"lrv", // GoPro/Insta360 low-resolution proxies
+];
+const PHOTO_EXTENSIONS = [
+	"jpg",
+	"jpeg",
+	"heic",
+	"heif",
+	"dng",
+	"tif",
+	"tiff",
+	"png",
+	"webp",
+	"cr2",
+	"cr3",
+	"nef",
+	"arw",
+	"raf",
+	"orf",
+	"rw2",
+	"insp", // Insta360
+];
+
+const OUTPUT_FORMATS = [
+	"json",
+	"ndjson",
+	"csv",
+	"tsv",
+	"geojson",
+	"gpx",
+	"kml",
+];
+
+// Files per exiftool run; small enough to show progress and stream results early
+const CHUNK_SIZE = 200;
+
+// {tokens} available in organize --template
+const TEMPLATE_TOKENS = [
+	"year",
+	"month",
+	"day",
+	"date", // YYYY-MM-DD
+	"time", // HHMMSS
+	"place",
+	"region",
+	"country",
+	"original", // File name without extension
+	"ext",
+];
+const DEFAULT_TEMPLATE =
+	"{year}/{month}-{place}/{date}_{time}_{original}.{ext}";
+const DEFAULT_TEMPLATE_WITHOUT_GEOCODE =
+	"{year}/{month}/{date}_{time}_{original}.{ext}";
+
+interface MediaCoords {
+	file: string;
+	latitude: number | null;
+	longitude: number | null;
+	creationDate: string | null;
+	place?: PlaceMatch | null;
+}
+
+interface PlaceMatch {
+	name: string;
+	region: string;
+	countryCode: string;
+	distanceKm: number;
+	timezone: string | null;
+}
+
+type Cell = string | number | null | undefined;
+
+// Columns for csv, tsv and ndjson output, selectable with --columns
+const RESULT_COLUMNS: Record<string, (r: MediaCoords) => Cell> = {
+	file: (r) => r.file,
+	latitude: (r) => r.latitude,
+	longitude: (r) => r.longitude,
+	creationDate: (r) => r.creationDate,
+	place: (r) => r.place?.name,
+	region: (r) => r.place?.region,
+	countryCode: (r) => r.place?.countryCode,
+	distanceKm: (r) => r.place?.distanceKm,
+	timezone: (r) => r.place?.timezone,
+};
+const GEOCODE_COLUMNS = [
+	"place",
+	"region",
+	"countryCode",
+	"distanceKm",
+	"timezone",
+];
+const SAMPLE_COLUMNS: Record<string, (t: Track, s: TrackSample) => Cell> = {
+	file: (t) => t.file,
+	time: (_, s) => s.time,
+	latitude: (_, s) => s.latitude,
+	longitude: (_, s) => s.longitude,
+	altitude: (_, s) => s.altitude,
+	speed: (_, s) => s.speed,
+};
+
+// The offset for local EXIF dates lives in a tag of its own
+const OFFSET_TAGS: Record<string, string> = {
+	"EXIF:DateTimeOriginal": "EXIF:OffsetTimeOriginal",
+	"EXIF:CreateDate": "EXIF:OffsetTimeDigitized",
+};
+// QuickTime CreateDate is UTC by spec (Apple's CreationDate carries its own offset)
+const UTC_DATE_TAGS = ["QuickTime:CreateDate"];
+
+// Tags to try in order, per media kind. Videos keep their metadata in QuickTime atoms
+// (Keys/UserData, e.g. "lat lon alt" in GPSCoordinates), photos in EXIF; XMP and
+// Composite tags cover sidecar-style and derived values. Names are "Group:Tag" as
+// printed by `exiftool -G`.
+const TAG_FALLBACKS = {
+	video: {
+		latitude: [
+			"Composite:GPSLatitude",
+			"QuickTime:GPSLatitude",
+			"XMP:GPSLatitude",
+		],
+		longitude: [
+			"Composite:GPSLongitude",
+			"QuickTime:GPSLongitude",
+			"XMP:GPSLongitude",
+		],
+		coordinates: [
+			"QuickTime:GPSCoordinates",
+			"Composite:GPSPosition",
+			"XMP:GPSPosition",
+		],
+		creationDate: [
+			"QuickTime:CreationDate", // Keys tag with the local time and offset
+			"QuickTime:CreateDate",
+			"XMP:DateTimeOriginal",
+			"XMP:CreateDate",
+			"EXIF:DateTimeOriginal",
+		],
+	},
+	photo: {
+		latitude: ["Composite:GPSLatitude", "EXIF:GPSLatitude", "XMP:GPSLatitude"],
+		longitude: [
+			"Composite:GPSLongitude",
+			"EXIF:GPSLongitude",
+			"XMP:GPSLongitude",
+		],
+		coordinates: [
+			"Composite:GPSPosition",
+			"XMP:GPSPosition",
+			"QuickTime:GPSCoordinates",
+		],
+		creationDate: [
+			"EXIF:DateTimeOriginal",
+			"EXIF:CreateDate",
+			"XMP:DateTimeOriginal",
+			"XMP:CreateDate",
+			"QuickTime:CreationDate",
+			"QuickTime:CreateDate",
+		],
+	},
+};
 
 function printHelp() {
 	console.log(`
-Extract GPS coordinates & creation date from .MOV videos (using exiftool).
+Extract GPS coordinates & creation date from photos and videos (using exiftool).
 
 Usage:
-  extract_coords.ts <glob_or_path> [more_paths...] [--csv]
+  extract_coords.ts <glob_or_path> [more_paths...] [--csv | --format <fmt>] [--ext <list>]
+  extract_coords.ts organize <glob_or_path> [more_paths...] --dest <dir> [options]
+  extract_coords.ts undo <manifest.json> [--dry-run]
 
 Options:
-  --csv     Output results as CSV instead of JSON
-  --help    Show this help message
+  --csv           Output results as CSV instead of JSON (same as --format csv)
+  --format <fmt>  Output format: ${OUTPUT_FORMATS.join(", ")} (default: json).
+                  csv follows RFC 4180 (quoted fields, CRLF line ends); tsv
+                  replaces tabs and line breaks inside fields with spaces;
+                  ndjson writes one JSON object per line.
+                  geojson, gpx and kml leave out files without coordinates.
+  --columns <list>
+                  Comma-separated columns for csv, tsv and ndjson. Available:
+                    ${Object.keys(RESULT_COLUMNS).join(", ")}
+                    with --track: ${Object.keys(SAMPLE_COLUMNS).join(", ")}
+                  Defaults to file, latitude, longitude, creationDate (plus
+                  place, region, countryCode with --geocode), or every sample
+                  column with --track.
+  --tz <zone>     Time zone for dates, as an IANA name (Europe/Paris) or a
+                  fixed offset (+02:00, Z). Dates are written as ISO 8601 with
+                  an offset. Without --tz the offset comes from the file
+                  (EXIF OffsetTime tags, QuickTime dates), or from the
+                  time zone of the nearest place with --geocode; dates with
+                  no known offset are written without one.
+  --gpx-track     With --format gpx, join the points into one track instead of
+                  writing a waypoint per file
+  --track         Read the full GPS track embedded in video timed metadata
+                  (dashcams, drones, GoPro) instead of one position per file:
+                  every sample with time, altitude and speed, as a GPX track,
+                  GeoJSON LineString or KML line. Distance, duration and
+                  bounding box of each track are reported on stderr.
+  --geocode <file>
+                  Add the nearest place name, region and country code to each
+                  result, looked up offline in a GeoNames dump such as
+                  cities500.txt (region names are read from admin1CodesASCII.txt
+                  in the same folder, if present). No online service is used.
+  --ext <list>    Comma-separated extensions to pick up from folders and globs
+                  (repeatable). Defaults to common formats:
+                    videos: ${VIDEO_EXTENSIONS.join(", ")}
+                    photos: ${PHOTO_EXTENSIONS.join(", ")}
+  --jobs <n>      How many exiftool processes to run at once (default: the
+                  number of CPUs, at most 4). Files are read ${CHUNK_SIZE} at a time;
+                  csv, tsv and ndjson rows are written as each batch is read.
+  --help          Show this help message
+
+Files named directly are always read, whatever their extension, and files
+matched by several arguments are read once. Files exiftool cannot read are
+listed on stderr at the end.
+
+Organize:
+  Moves (or copies) files into a folder tree named after their date and place.
+  Missing values become "unknown". An undo manifest listing every move is
+  written, which 'extract_coords.ts undo <manifest.json>' reverts.
+
+  --dest <dir>    Root folder of the organized tree (required)
+  --template <t>  Path below --dest, default:
+                    ${DEFAULT_TEMPLATE}
+                  or without --geocode:
+                    ${DEFAULT_TEMPLATE_WITHOUT_GEOCODE}
+                  Tokens: ${TEMPLATE_TOKENS.map((t) => `{${t}}`).join(", ")}
+                  ({date} is YYYY-MM-DD, {time} HHMMSS, {original} the file
+                  name without extension). {place}, {region} and {country}
+                  need --geocode.
+  --copy          Copy files instead of moving them
+  --dry-run       Print what would happen without touching any file
+  --on-collision <mode>
+                  When the target exists: rename (add _1, _2, ...; default),
+                  skip, or overwrite
+  --manifest <file>
+                  Where to write the undo manifest
+                  (default: <dest>/organize-manifest-<timestamp>.json)
+  --since <date>  Only files taken on or after this date (YYYY[-MM[-DD]])
+  --until <date>  Only files taken on or before this date (YYYY[-MM[-DD]])
+  --bbox <w,s,e,n>
+                  Only files inside this bounding box (degrees). Write
+                  --bbox=-10,35,5,44 when the first value is negative.
+  --near <lat,lon> --radius <km>
+                  Only files within <km> of a point
 
 Examples:
   extract_coords.ts ./video.MOV
   extract_coords.ts ./videos/**/*.MOV --csv
-  extract_coords.ts ./folder1 ./folder2/**/*.MOV
+  extract_coords.ts ./folder1 ./folder2/**/*.MP4
+  extract_coords.ts ./DCIM --ext heic,jpg,dng
+  extract_coords.ts ./trip --format geojson > trip.geojson
+  extract_coords.ts ./trip --format gpx --gpx-track > trip.gpx
+  extract_coords.ts ./GX010042.MP4 --track --format gpx > ride.gpx
+  extract_coords.ts ./trip --geocode ~/geonames/cities500.txt --csv
+  extract_coords.ts ./trip --format tsv --columns file,creationDate --tz Europe/Paris
+  extract_coords.ts ./GX010042.MP4 --track --format ndjson --columns time,latitude,longitude
+  extract_coords.ts organize ./DCIM --dest ~/Media --geocode ~/geonames/cities500.txt --dry-run
+  extract_coords.ts organize ./DCIM --dest ~/Media --template "{year}/{date}/{original}.{ext}" --copy --since 2024-06 --until 2024-08
+  extract_coords.ts organize ./DCIM --dest ~/Trips/Paris --template "{date}_{time}_{original}.{ext}" --near 48.85,2.35 --radius 30
+  extract_coords.ts undo ~/Media/organize-manifest-2024-09-01T10-00-00-000Z.json
 `);
 }
 
-const args = Deno.args;
-if (args.length === 0 || args.includes("--help")) {
+const flags = parse(Deno.args, {
+	boolean: ["csv", "gpx-track", "track", "copy", "dry-run", "help"],
+	string: [
+		"_",
+		"ext",
+		"format",
+		"geocode",
+		"columns",
+		"tz",
+		"jobs",
+		"dest",
+		"template",
+		"on-collision",
+		"manifest",
+		"since",
+		"until",
+		"bbox",
+		"near",
+		"radius",
+	],
+	collect: ["ext"],
+});
+
+const subcommand =
+	flags._[0] === "organize" || flags._[0] === "undo"
+		? String(flags._[0])
+		: null;
+const targetPaths = flags._.map(String).slice(subcommand ? 1 : 0);
+if (targetPaths.length === 0 || flags.help) {
 	printHelp();
 	Deno.exit(0);
 }
 
-const targetPaths = args.filter((a) => !a.startsWith("--"));
-const outputCSV = args.includes("--csv");
+const outputFormat = flags.csv ? "csv" : (flags.format ?? "json").toLowerCase();
+if (!OUTPUT_FORMATS.includes(outputFormat)) {
+	console.error(
+		`Unknown --format '${flags.format}'. Use one of: ${OUTPUT_FORMATS.join(", ")}.`,
+	);
+	Deno.exit(1);
+}
+const extensions = new Set(
+	(flags.ext.length > 0
+		? flags.ext.flatMap((list) => list.split(","))
+		: [...VIDEO_EXTENSIONS, ...PHOTO_EXTENSIONS]
+	)
+		.map((ext) => ext.trim().replace(/^\./, "").toLowerCase())
+		.filter(Boolean),
+);
 
-async function extractWithExiftool(filePaths: string[]) {
-	const cmd = new Deno.Command("exiftool", {
-		args: [
-			"-json",
-			"-n",
-			"-GPSLatitude",
-			"-GPSLongitude",
-			"-CreateDate",
-			...filePaths,
-		],
+const columnChoices = flags.track ? SAMPLE_COLUMNS : RESULT_COLUMNS;
+const columns = flags.columns
+	? flags.columns.split(",").map((column) => column.trim())
+	: flags.track
+		? Object.keys(SAMPLE_COLUMNS)
+		: [
+				"file",
+				"latitude",
+				"longitude",
+				"creationDate",
+				...(flags.geocode ? ["place", "region", "countryCode"] : []),
+			];
+const unknownColumns = columns.filter(
+	(column) => !Object.hasOwn(columnChoices, column),
+);
+if (unknownColumns.length > 0) {
+	console.error(
+		`Unknown column${unknownColumns.length === 1 ? "" : "s"} ${unknownColumns.join(", ")}. Use any of: ${Object.keys(columnChoices).join(", ")}.`,
+	);
+	Deno.exit(1);
+}
+if (
+	!flags.geocode &&
+	columns.some((column) => GEOCODE_COLUMNS.includes(column))
+) {
+	console.error(`Columns ${GEOCODE_COLUMNS.join(", ")} need --geocode <file>.`);
+	Deno.exit(1);
+}
+if (flags.tz) {
+	try {
+		zoneOffset(flags.tz, Date.now());
+	} catch {
+		console.error(
+			`Unknown time zone '${flags.tz}'. Use an IANA name such as Europe/Paris, or an offset such as +02:00.`,
+		);
+		Deno.exit(1);
+	}
+}
+
+const jobs = flags.jobs
+	? Number(flags.jobs)
+	: Math.min(4, navigator.hardwareConcurrency);
+if (!Number.isInteger(jobs) || jobs < 1) {
+	console.error(`Invalid --jobs '${flags.jobs}': expected a positive integer.`);
+	Deno.exit(1);
+}
+
+function parseNumbers(value: string, count: number, flag: string): number[] {
+	const numbers = value.split(",").map((n) => Number(n.trim()));
+	if (numbers.length !== count || !numbers.every(Number.isFinite)) {
+		console.error(
+			`Invalid --${flag} '${value}': expected ${count} comma-separated numbers.`,
+		);
+		Deno.exit(1);
+	}
+	return numbers;
+}
+
+let organizeOptions: OrganizeOptions | null = null;
+if (subcommand === "organize") {
+	if (!flags.dest) {
+		console.error("organize needs --dest <dir>.");
+		Deno.exit(1);
+	}
+	if (flags.track) {
+		console.error("--track cannot be combined with organize.");
+		Deno.exit(1);
+	}
+	const template =
+		flags.template ??
+		(flags.geocode ? DEFAULT_TEMPLATE : DEFAULT_TEMPLATE_WITHOUT_GEOCODE);
+	const unknownTokens = [...template.matchAll(/\{(\w+)\}/g)]
+		.map((m) => m[1])
+		.filter((token) => !TEMPLATE_TOKENS.includes(token));
+	if (unknownTokens.length > 0) {
+		console.error(
+			`Unknown template token${unknownTokens.length === 1 ? "" : "s"} ${unknownTokens.map((t) => `{${t}}`).join(", ")}.`,
+		);
+		Deno.exit(1);
+	}
+	if (/\{(place|region|country)\}/.test(template) && !flags.geocode) {
+		console.error(
+			"The template uses {place}, {region} or {country}; add --geocode <file>, or pass a --template without them.",
+		);
+		Deno.exit(1);
+	}
+	const onCollision = flags["on-collision"] ?? "rename";
+	if (
+		onCollision !== "rename" &&
+		onCollision !== "skip" &&
+		onCollision !== "overwrite"
+	) {
+		console.error(
+			`Unknown --on-collision '${onCollision}'. Use rename, skip or overwrite.`,
+		);
+		Deno.exit(1);
+	}
+	for (const flag of ["since", "until"] as const) {
+		if (flags[flag] && !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(flags[flag])) {
+			console.error(
+				`Invalid --${flag} '${flags[flag]}'. Use YYYY, YYYY-MM or YYYY-MM-DD.`,
+			);
+			Deno.exit(1);
+		}
+	}
+	if (Boolean(flags.near) !== Boolean(flags.radius)) {
+		console.error("--near and --radius must be given together.");
+		Deno.exit(1);
+	}
+	const [latitude, longitude] = flags.near
+		? parseNumbers(flags.near, 2, "near")
+		: [];
+	organizeOptions = {
+		dest: flags.dest.replace(/[\\/]+$/, "") || "/",
+		template,
+		copy: flags.copy,
+		dryRun: flags["dry-run"],
+		onCollision,
+		manifest: flags.manifest ?? null,
+		since: flags.since ?? null,
+		until: flags.until ?? null,
+		bbox: flags.bbox
+			? (parseNumbers(flags.bbox, 4, "bbox") as OrganizeOptions["bbox"])
+			: null,
+		near: flags.near
+			? {
+					latitude,
+					longitude,
+					radiusKm: parseNumbers(flags.radius!, 1, "radius")[0],
+				}
+			: null,
+	};
+}
+
+function extensionOf(path: string): string {
+	const name = path.split(/[\\/]/).pop() ?? path;
+	return name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+}
+
+function mediaKind(path: string): keyof typeof TAG_FALLBACKS {
+	return PHOTO_EXTENSIONS.includes(extensionOf(path)) ? "photo" : "video";
+}
+
+// Returns the first tag from the list that exiftool reported a value for
+function firstTag(parsed: Record<string, unknown>, tags: string[]) {
+	for (const tag of tags) {
+		const value = parsed[tag];
+		if (value !== undefined && value !== null && value !== "") return value;
+	}
+	return null;
+}
+
+// Reads latitude/longitude from separate tags, or from a combined "lat lon [alt]" tag
+function coordinatesOf(parsed: Record<string, unknown>, file: string) {
+	const fallbacks = TAG_FALLBACKS[mediaKind(file)];
+	const latitude = firstTag(parsed, fallbacks.latitude);
+	const longitude = firstTag(parsed, fallbacks.longitude);
+	if (typeof latitude === "number" && typeof longitude === "number") {
+		return { latitude, longitude };
+	}
+	const combined = firstTag(parsed, fallbacks.coordinates);
+	const [lat, lon] = String(combined ?? "")
+		.split(/[\s,]+/)
+		.map(Number);
+	if (Number.isFinite(lat) && Number.isFinite(lon)) {
+		return { latitude: lat, longitude: lon };
+	}
+	return { latitude: null, longitude: null };
+}
+
+// The first usable creation date as ISO 8601, with its offset when the file records one
+function creationDateOf(
+	parsed: Record<string, unknown>,
+	file: string,
+): string | null {
+	for (const tag of TAG_FALLBACKS[mediaKind(file)].creationDate) {
+		const date = exifDateToISO(
+			parsed[tag] == null ? null : String(parsed[tag]),
+		);
+		if (!date || date.startsWith("0000")) continue; // Unset QuickTime dates are all zeros
+		if (/(Z|[+-]\d{2}:\d{2})$/.test(date)) return date;
+		const offset = parsed[OFFSET_TAGS[tag]];
+		if (typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+			return date + offset;
+		}
+		return UTC_DATE_TAGS.includes(tag) ? `${date}Z` : date;
+	}
+	return null;
+}
+
+interface ReadFailure {
+	file: string;
+	reason: string;
+}
+
+// Runs exiftool over one chunk of files. The file names go through an argument
+// file on stdin (-@ -), so no command line gets too long however many there are.
+async function readChunk(
+	args: string[],
+	files: string[],
+): Promise<{ records: Record<string, unknown>[]; failures: ReadFailure[] }> {
+	const child = new Deno.Command("exiftool", {
+		args: [...args, "-@", "-"],
+		stdin: "piped",
+		stdout: "piped",
+		stderr: "piped",
+	}).spawn();
+	const writer = child.stdin.getWriter();
+	await writer.write(
+		new TextEncoder().encode(
+			// A leading "-" would be read as an option
+			files
+				.map((file) => (file.startsWith("-") ? `./${file}` : file))
+				.join("\n") + "\n",
+		),
+	);
+	await writer.close();
+	const { code, stdout, stderr } = await child.output();
+
+	// exiftool reports unreadable files on stderr as "Error: <reason> - <file>"
+	const reasons = new Map<string, string>();
+	const errorOutput = new TextDecoder().decode(stderr);
+	for (const line of errorOutput.split("\n")) {
+		const match = line.match(/^Error: (.+?) - (.+)$/);
+		if (match) reasons.set(match[2].replace(/^\.\/(?=-)/, ""), match[1]);
+	}
+
+	let parsed: Record<string, unknown>[] = [];
+	const text = new TextDecoder().decode(stdout).trim();
+	if (text) {
+		try {
+			parsed = JSON.parse(text);
+		} catch {
+			const reason = `unreadable exiftool output (exit code ${code})`;
+			return { records: [], failures: files.map((file) => ({ file, reason })) };
+		}
+	} else if (code !== 0 && reasons.size === 0) {
+		const reason = errorOutput.trim() || `exiftool failed (exit code ${code})`;
+		return { records: [], failures: files.map((file) => ({ file, reason })) };
+	}
+
+	const records: Record<string, unknown>[] = [];
+	for (const record of parsed) {
+		const file = String(record.SourceFile).replace(/^\.\/(?=-)/, "");
+		const errorKey = Object.keys(record).find((key) => /(^|:)Error$/.test(key));
+		if (errorKey) {
+			reasons.set(file, String(record[errorKey]));
+		} else {
+			records.push({ ...record, SourceFile: file });
+		}
+	}
+	const returned = new Set(records.map((record) => record.SourceFile));
+	const failures = files
+		.filter((file) => !returned.has(file))
+		.map((file) => ({
+			file,
+			reason: reasons.get(file) ?? "no metadata returned",
+		}));
+	return { records, failures };
+}
+
+// Reads the files in chunks of CHUNK_SIZE, running up to `jobs` exiftool processes at
+// once, and yields each chunk's records in input order as soon as it is ready.
+// Progress goes to stderr when it is a terminal; unreadable files go into `failures`.
+async function* runExiftool(
+	args: string[],
+	files: string[],
+	failures: ReadFailure[],
+): AsyncGenerator<Record<string, unknown>[]> {
+	const chunks: string[][] = [];
+	for (let i = 0; i < files.length; i += CHUNK_SIZE) {
+		chunks.push(files.slice(i, i + CHUNK_SIZE));
+	}
+	const showProgress = Deno.stderr.isTerminal() && chunks.length > 1;
+	const pending: ReturnType<typeof readChunk>[] = [];
+	let done = 0;
+	for (let i = 0; i < chunks.length; i++) {
+		while (pending.length < Math.min(chunks.length, i + jobs)) {
+			const chunk = pending.length;
+			// Settle failures here, so a chunk that is not awaited yet cannot reject unhandled
+			pending.push(
+				readChunk(args, chunks[chunk]).catch((e) => {
+					const reason = e instanceof Error ? e.message : String(e);
+					return {
+						records: [],
+						failures: chunks[chunk].map((file) => ({ file, reason })),
+					};
+				}),
+			);
+		}
+		const result = await pending[i];
+		failures.push(...result.failures);
+		done += chunks[i].length;
+		if (showProgress) {
+			await Deno.stderr.write(
+				new TextEncoder().encode(
+					`\rReading metadata: ${done}/${files.length} files` +
+						(failures.length > 0 ? `, ${failures.length} unreadable` : "") +
+						(done === files.length ? "\n" : ""),
+				),
+			);
+		}
+		yield result.records;
+	}
+}
+
+async function* extractWithExiftool(
+	filePaths: string[],
+	failures: ReadFailure[],
+): AsyncGenerator<MediaCoords[]> {
+	const args = [
+		"-json",
+		"-n",
+		"-G",
+		"-GPSLatitude",
+		"-GPSLongitude",
+		"-GPSCoordinates",
+		"-GPSPosition",
+		"-CreationDate",
+		"-DateTimeOriginal",
+		"-CreateDate",
+		"-OffsetTimeOriginal",
+		"-OffsetTimeDigitized",
+	];
+	for await (const records of runExiftool(args, filePaths, failures)) {
+		yield records.map((parsed) => {
+			const file = String(parsed.SourceFile);
+			return {
+				file,
+				...coordinatesOf(parsed, file),
+				creationDate: creationDateOf(parsed, file),
+			};
+		});
+	}
+}
+
+// exiftool dates look like "2024:06:01 14:03:22[.sss][+02:00]"; GPX and KML need ISO 8601
+function exifDateToISO(date: string | null): string | null {
+	const match = date?.match(
+		/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}:\d{2}:\d{2}(?:\.\d+)?)(Z|[+-]\d{2}:\d{2})?/,
+	);
+	if (!match) return null;
+	const [, year, month, day, time, offset] = match;
+	return `${year}-${month}-${day}T${time}${offset ?? ""}`;
+}
+
+// Offset of a time zone (IANA name or fixed "+02:00"/"Z") at an instant, as "+02:00"
+function zoneOffset(zone: string, instant: number): string {
+	if (/^[+-]\d{2}:\d{2}$/.test(zone)) return zone;
+	if (/^(Z|UTC)$/i.test(zone)) return "+00:00";
+	const name =
+		new Intl.DateTimeFormat("en-US", {
+			timeZone: zone,
+			timeZoneName: "longOffset",
+		})
+			.formatToParts(instant)
+			.find((part) => part.type === "timeZoneName")?.value ?? "GMT";
+	return name === "GMT" ? "+00:00" : name.slice(3);
+}
+
+function offsetMinutes(offset: string): number {
+	const [, sign, hours, minutes] = offset.match(/^([+-])(\d{2}):(\d{2})$/)!;
+	return (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+}
+
+// Writes an ISO 8601 date in the given zone. Dates with an offset are converted;
+// dates without one are taken as wall-clock time in that zone.
+function inTimezone(date: string, zone: string): string {
+	const match = date.match(
+		/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/,
+	);
+	if (!match) return date;
+	const [, wallClock, fraction = "", offset] = match;
+	let instant = Date.parse(`${wallClock}Z`);
+	if (offset) {
+		instant -= offset === "Z" ? 0 : offsetMinutes(offset) * 60_000;
+	} else {
+		// Correct by the zone's offset, then again in case that crossed a DST change
+		const asUTC = instant;
+		instant = asUTC - offsetMinutes(zoneOffset(zone, asUTC)) * 60_000;
+		instant = asUTC - offsetMinutes(zoneOffset(zone, instant)) * 60_000;
+	}
+	const target = zoneOffset(zone, instant);
+	const local = new Date(instant + offsetMinutes(target) * 60_000)
+		.toISOString()
+		.slice(0, 19);
+	return `${local}${fraction}${target}`;
+}
+
+function csvField(value: Cell): string {
+	const text = value == null ? "" : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+// Rows as RFC 4180 CSV, TSV or NDJSON. NDJSON has no header row; the column
+// names become the keys of each object instead.
+function formatRows(
+	format: string,
+	header: string[],
+	rows: Cell[][],
+	withHeader: boolean,
+): string {
+	if (format === "ndjson") {
+		return rows
+			.map(
+				(row) =>
+					JSON.stringify(
+						Object.fromEntries(
+							header.map((column, i) => [column, row[i] ?? null]),
+						),
+					) + "\n",
+			)
+			.join("");
+	}
+	if (format === "tsv") {
+		return (withHeader ? [header, ...rows] : rows)
+			.map(
+				(row) =>
+					row
+						.map((value) =>
+							(value == null ? "" : String(value)).replace(/[\t\r\n]+/g, " "),
+						)
+						.join("\t") + "\n",
+			)
+			.join("");
+	}
+	return (withHeader ? [header, ...rows] : rows)
+		.map((row) => row.map(csvField).join(",") + "\r\n")
+		.join("");
+}
+
+async function writeStdout(text: string) {
+	const data = new TextEncoder().encode(text);
+	for (let written = 0; written < data.length;) {
+		written += await Deno.stdout.write(data.subarray(written));
+	}
+}
+
+function escapeXML(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function fileName(path: string): string {
+	return path.split(/[\\/]/).pop() ?? path;
+}
+
+type Located = MediaCoords & { latitude: number; longitude: number };
+
+function toGeoJSON(points: Located[]): string {
+	return JSON.stringify(
+		{
+			type: "FeatureCollection",
+			features: points.map((p) => ({
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [p.longitude, p.latitude] },
+				properties: {
+					file: p.file,
+					creationDate: p.creationDate,
+					...(p.place === undefined ? {} : { place: p.place }),
+				},
+			})),
+		},
+		null,
+		2,
+	);
+}
+
+// Waypoints (or track points) in time order; undated points go last
+function toGPX(points: Located[], asTrack: boolean): string {
+	const sorted = [...points].sort(
+		(a, b) =>
+			(Date.parse(a.creationDate ?? "") || Infinity) -
+			(Date.parse(b.creationDate ?? "") || Infinity),
+	);
+	const point = (tag: string, p: Located, indent: string) => {
+		const time = p.creationDate;
+		return [
+			`${indent}<${tag} lat="${p.latitude}" lon="${p.longitude}">`,
+			...(time ? [`${indent}  <time>${time}</time>`] : []),
+			`${indent}  <name>${escapeXML(fileName(p.file))}</name>`,
+			`${indent}  <desc>${escapeXML(p.file)}</desc>`,
+			`${indent}</${tag}>`,
+		].join("\n");
+	};
+	const body = asTrack
+		? [
+				"  <trk>",
+				"    <name>extract_coords</name>",
+				"    <trkseg>",
+				...sorted.map((p) => point("trkpt", p, "      ")),
+				"    </trkseg>",
+				"  </trk>",
+			]
+		: sorted.map((p) => point("wpt", p, "  "));
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<gpx version="1.1" creator="extract_coords.ts" xmlns="http://www.topografix.com/GPX/1/1">',
+		...body,
+		"</gpx>",
+	].join("\n");
+}
+
+function toKML(points: Located[]): string {
+	const placemarks = points.map((p) => {
+		const time = p.creationDate;
+		return [
+			"    <Placemark>",
+			`      <name>${escapeXML(fileName(p.file))}</name>`,
+			`      <description>${escapeXML(p.file)}</description>`,
+			...(time ? [`      <TimeStamp><when>${time}</when></TimeStamp>`] : []),
+			`      <Point><coordinates>${p.longitude},${p.latitude}</coordinates></Point>`,
+			"    </Placemark>",
+		].join("\n");
 	});
-	const { stdout } = await cmd.output();
-	const text = new TextDecoder().decode(stdout);
-	return JSON.parse(text).map((parsed: any) => ({
-		file: parsed.SourceFile,
-		latitude: parsed.GPSLatitude ?? null,
-		longitude: parsed.GPSLongitude ?? null,
-		creationDate: parsed.CreateDate ?? null,
-	}));
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<kml xmlns="http://www.opengis.net/kml/2.2">',
+		"  <Document>",
+		...placemarks,
+		"  </Document>",
+		"</kml>",
+	].join("\n");
+}
+
+interface TrackSample {
+	time: string | null;
+	latitude: number;
+	longitude: number;
+	altitude: number | null;
+	speed: number | null;
+}
+
+interface TrackStats {
+	samples: number;
+	distanceKm: number;
+	durationSeconds: number | null;
+	start: string | null;
+	end: string | null;
+	bbox: [west: number, south: number, east: number, north: number];
+}
+
+interface Track {
+	file: string;
+	speedUnit: string | null;
+	samples: TrackSample[];
+	stats: TrackStats;
+}
+
+const SPEED_UNITS: Record<string, string> = { K: "km/h", M: "mph", N: "knots" };
+
+// Great-circle distance in kilometres
+function haversineKm(
+	a: { latitude: number; longitude: number },
+	b: { latitude: number; longitude: number },
+): number {
+	const toRad = (deg: number) => (deg * Math.PI) / 180;
+	const dLat = toRad(b.latitude - a.latitude);
+	const dLon = toRad(b.longitude - a.longitude);
+	const h =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(toRad(a.latitude)) *
+			Math.cos(toRad(b.latitude)) *
+			Math.sin(dLon / 2) ** 2;
+	return 2 * 6371.0088 * Math.asin(Math.sqrt(h));
+}
+
+function trackStats(samples: TrackSample[]): TrackStats {
+	let distanceKm = 0;
+	for (let i = 1; i < samples.length; i++) {
+		distanceKm += haversineKm(samples[i - 1], samples[i]);
+	}
+	const times = samples
+		.map((s) => s.time)
+		.filter((t): t is string => t !== null && !isNaN(Date.parse(t)));
+	const start = times[0] ?? null;
+	const end = times[times.length - 1] ?? null;
+	const lats = samples.map((s) => s.latitude);
+	const lons = samples.map((s) => s.longitude);
+	return {
+		samples: samples.length,
+		distanceKm: Math.round(distanceKm * 1000) / 1000,
+		durationSeconds:
+			start && end ? (Date.parse(end) - Date.parse(start)) / 1000 : null,
+		start,
+		end,
+		bbox: [
+			Math.min(...lons),
+			Math.min(...lats),
+			Math.max(...lons),
+			Math.max(...lats),
+		],
+	};
+}
+
+// Reads every GPS sample from timed metadata (exiftool -ee). With -G3, each embedded
+// sample is reported under its own document group: "Doc1:GPSLatitude", "Doc2:..."
+async function* extractTracks(
+	filePaths: string[],
+	failures: ReadFailure[],
+): AsyncGenerator<Track[]> {
+	const args = [
+		"-json",
+		"-n",
+		"-ee",
+		"-G3",
+		"-GPSLatitude",
+		"-GPSLongitude",
+		"-GPSCoordinates",
+		"-GPSAltitude",
+		"-GPSSpeed",
+		"-GPSSpeedRef",
+		"-GPSDateTime",
+	];
+	for await (const records of runExiftool(args, filePaths, failures)) {
+		yield records.map(readTrack).filter((t): t is Track => t !== null);
+	}
+}
+
+function readTrack(parsed: Record<string, unknown>): Track | null {
+	const docs = new Map<string, Record<string, unknown>>();
+	for (const [key, value] of Object.entries(parsed)) {
+		const match = key.match(/^(Doc[\d-]+):(\w+)$/);
+		if (match) {
+			docs.set(match[1], { ...docs.get(match[1]), [match[2]]: value });
+		}
+	}
+
+	let speedUnit: string | null = null;
+	const samples: TrackSample[] = [];
+	for (const doc of docs.values()) {
+		let { GPSLatitude: latitude, GPSLongitude: longitude } = doc;
+		if (typeof latitude !== "number" || typeof longitude !== "number") {
+			[latitude, longitude] = String(doc.GPSCoordinates ?? "")
+				.split(/[\s,]+/)
+				.map(Number);
+		}
+		if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) continue;
+		speedUnit ??= SPEED_UNITS[String(doc.GPSSpeedRef)] ?? null;
+		samples.push({
+			time: exifDateToISO(
+				doc.GPSDateTime == null ? null : String(doc.GPSDateTime),
+			),
+			latitude: latitude as number,
+			longitude: longitude as number,
+			altitude: typeof doc.GPSAltitude === "number" ? doc.GPSAltitude : null,
+			speed: typeof doc.GPSSpeed === "number" ? doc.GPSSpeed : null,
+		});
+	}
+	if (samples.length === 0) return null;
+	return {
+		file: String(parsed.SourceFile),
+		speedUnit,
+		samples,
+		stats: trackStats(samples),
+	};
+}
+
+function formatDuration(seconds: number): string {
+	const h = Math.floor(seconds / 3600);
+	const m = Math.floor((seconds % 3600) / 60);
+	const s = Math.round(seconds % 60);
+	return [h, m, s].map((n) => String(n).padStart(2, "0")).join(":");
+}
+
+function tracksToGeoJSON(tracks: Track[]): string {
+	return JSON.stringify(
+		{
+			type: "FeatureCollection",
+			features: tracks.map((t) => ({
+				type: "Feature",
+				geometry: {
+					type: "LineString",
+					coordinates: t.samples.map((s) =>
+						s.altitude === null
+							? [s.longitude, s.latitude]
+							: [s.longitude, s.latitude, s.altitude],
+					),
+				},
+				properties: {
+					file: t.file,
+					...t.stats,
+					coordTimes: t.samples.map((s) => s.time),
+				},
+			})),
+		},
+		null,
+		2,
+	);
+}
+
+function tracksToGPX(tracks: Track[]): string {
+	const trackElements = tracks.map((t) =>
+		[
+			"  <trk>",
+			`    <name>${escapeXML(fileName(t.file))}</name>`,
+			`    <desc>${escapeXML(t.file)}</desc>`,
+			"    <trkseg>",
+			...t.samples.map((s) =>
+				[
+					`      <trkpt lat="${s.latitude}" lon="${s.longitude}">`,
+					...(s.altitude === null ? [] : [`        <ele>${s.altitude}</ele>`]),
+					...(s.time ? [`        <time>${s.time}</time>`] : []),
+					"      </trkpt>",
+				].join("\n"),
+			),
+			"    </trkseg>",
+			"  </trk>",
+		].join("\n"),
+	);
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<gpx version="1.1" creator="extract_coords.ts" xmlns="http://www.topografix.com/GPX/1/1">',
+		...trackElements,
+		"</gpx>",
+	].join("\n");
+}
+
+function tracksToKML(tracks: Track[]): string {
+	const placemarks = tracks.map((t) =>
+		[
+			"    <Placemark>",
+			`      <name>${escapeXML(fileName(t.file))}</name>`,
+			`      <description>${escapeXML(t.file)}</description>`,
+			"      <LineString><coordinates>",
+			...t.samples.map(
+				(s) => `        ${s.longitude},${s.latitude},${s.altitude ?? 0}`,
+			),
+			"      </coordinates></LineString>",
+			"    </Placemark>",
+		].join("\n"),
+	);
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<kml xmlns="http://www.opengis.net/kml/2.2">',
+		"  <Document>",
+		...placemarks,
+		"  </Document>",
+		"</kml>",
+	].join("\n");
+}
+
+interface Place {
+	name: string;
+	region: string;
+	countryCode: string;
+	timezone: string;
+	latitude: number;
+	longitude: number;
+}
+
+// k-d tree node over points on the unit sphere, where straight-line distance
+// orders neighbours the same way as great-circle distance
+interface PlaceNode {
+	place: Place;
+	point: [number, number, number];
+	axis: number;
+	left: PlaceNode | null;
+	right: PlaceNode | null;
+}
+
+function toUnitSphere(
+	latitude: number,
+	longitude: number,
+): [number, number, number] {
+	const lat = (latitude * Math.PI) / 180;
+	const lon = (longitude * Math.PI) / 180;
+	return [
+		Math.cos(lat) * Math.cos(lon),
+		Math.cos(lat) * Math.sin(lon),
+		Math.sin(lat),
+	];
+}
+
+function buildPlaceTree(
+	entries: { place: Place; point: [number, number, number] }[],
+	depth = 0,
+): PlaceNode | null {
+	if (entries.length === 0) return null;
+	const axis = depth % 3;
+	entries.sort((a, b) => a.point[axis] - b.point[axis]);
+	const median = entries.length >> 1;
+	return {
+		...entries[median],
+		axis,
+		left: buildPlaceTree(entries.slice(0, median), depth + 1),
+		right: buildPlaceTree(entries.slice(median + 1), depth + 1),
+	};
+}
+
+function nearestPlace(
+	root: PlaceNode,
+	latitude: number,
+	longitude: number,
+): Place {
+	const target = toUnitSphere(latitude, longitude);
+	let best = root;
+	let bestDistance = Infinity;
+	const visit = (node: PlaceNode | null) => {
+		if (!node) return;
+		const distance = node.point.reduce(
+			(sum, v, i) => sum + (v - target[i]) ** 2,
+			0,
+		);
+		if (distance < bestDistance) {
+			best = node;
+			bestDistance = distance;
+		}
+		const delta = target[node.axis] - node.point[node.axis];
+		visit(delta < 0 ? node.left : node.right);
+		if (delta ** 2 < bestDistance) visit(delta < 0 ? node.right : node.left);
+	};
+	visit(root);
+	return best.place;
+}
+
+// Loads a GeoNames dump (e.g. cities500.txt from https://download.geonames.org/export/dump/).
+// Region names come from admin1CodesASCII.txt next to it when present, else the admin1 code is used.
+async function loadGazetteer(path: string): Promise<PlaceNode> {
+	const regionNames = new Map<string, string>();
+	const dir = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : ".";
+	try {
+		for (const line of (
+			await Deno.readTextFile(`${dir}/admin1CodesASCII.txt`)
+		).split("\n")) {
+			const [code, name] = line.split("\t");
+			if (code && name) regionNames.set(code, name);
+		}
+	} catch {
+		// Optional; regions stay as codes
+	}
+
+	const entries: { place: Place; point: [number, number, number] }[] = [];
+	for (const line of (await Deno.readTextFile(path)).split("\n")) {
+		// geonameid, name, asciiname, alternatenames, latitude, longitude, feature class,
+		// feature code, country code, cc2, admin1 code, ..., timezone (column 18)
+		const columns = line.split("\t");
+		if (columns.length < 18) continue;
+		const latitude = Number(columns[4]);
+		const longitude = Number(columns[5]);
+		if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) continue;
+		const countryCode = columns[8];
+		const admin1 = columns[10];
+		entries.push({
+			place: {
+				name: columns[1],
+				region: regionNames.get(`${countryCode}.${admin1}`) ?? admin1,
+				countryCode,
+				timezone: columns[17],
+				latitude,
+				longitude,
+			},
+			point: toUnitSphere(latitude, longitude),
+		});
+	}
+	const tree = buildPlaceTree(entries);
+	if (!tree) throw new Error(`No places found in gazetteer '${path}'.`);
+	return tree;
+}
+
+interface OrganizeOptions {
+	dest: string;
+	template: string;
+	copy: boolean;
+	dryRun: boolean;
+	onCollision: "rename" | "skip" | "overwrite";
+	manifest: string | null;
+	since: string | null;
+	until: string | null;
+	bbox: [west: number, south: number, east: number, north: number] | null;
+	near: { latitude: number; longitude: number; radiusKm: number } | null;
+}
+
+interface OrganizeManifest {
+	created: string;
+	mode: "move" | "copy";
+	dest: string;
+	operations: { from: string; to: string; overwrote?: boolean }[];
+}
+
+function dirName(path: string): string {
+	const index = Math.max(path.lastIndexOf("/"), path.lastIndexOf("\\"));
+	return index > 0 ? path.slice(0, index) : ".";
+}
+
+async function pathExists(path: string): Promise<boolean> {
+	try {
+		await Deno.lstat(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Values for the {tokens} of an --template, made safe to use in file names
+function templateValues(r: MediaCoords): Record<string, string> {
+	const date = r.creationDate?.match(
+		/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/,
+	);
+	const name = fileName(r.file);
+	const dot = name.lastIndexOf(".");
+	const values: Record<string, string | undefined> = {
+		year: date?.[1],
+		month: date?.[2],
+		day: date?.[3],
+		date: date ? `${date[1]}-${date[2]}-${date[3]}` : undefined,
+		time: date ? `${date[4]}${date[5]}${date[6]}` : undefined,
+		place: r.place?.name,
+		region: r.place?.region,
+		country: r.place?.countryCode,
+		original: dot > 0 ? name.slice(0, dot) : name,
+		ext: dot > 0 ? name.slice(dot + 1) : "",
+	};
+	return Object.fromEntries(
+		Object.entries(values).map(([token, value]) => [
+			token,
+			(value ?? "unknown").replace(/[\\/:*?"<>|\p{Cc}]/gu, "-").trim() ||
+				(token === "ext" ? "" : "unknown"),
+		]),
+	);
+}
+
+function passesFilters(r: MediaCoords, options: OrganizeOptions): boolean {
+	if (options.since || options.until) {
+		const date = r.creationDate?.slice(0, 10);
+		if (!date) return false;
+		if (options.since && date < options.since) return false;
+		if (options.until && date.slice(0, options.until.length) > options.until) {
+			return false;
+		}
+	}
+	if (options.bbox || options.near) {
+		if (r.latitude === null || r.longitude === null) return false;
+		if (options.bbox) {
+			const [west, south, east, north] = options.bbox;
+			const inLongitude =
+				west <= east
+					? r.longitude >= west && r.longitude <= east
+					: r.longitude >= west || r.longitude <= east; // Crosses the antimeridian
+			if (!inLongitude || r.latitude < south || r.latitude > north) {
+				return false;
+			}
+		}
+		if (
+			options.near &&
+			haversineKm(options.near, {
+				latitude: r.latitude,
+				longitude: r.longitude,
+			}) > options.near.radiusKm
+		) {
+			return false;
+		}
+	}
+	return true;
+}
+
+// Appends _1, _2, ... before the extension until the path is free
+async function uniquePath(path: string, taken: Set<string>): Promise<string> {
+	const dot = path.lastIndexOf(".");
+	const hasExt = dot > dirName(path).length + 1;
+	const base = hasExt ? path.slice(0, dot) : path;
+	const ext = hasExt ? path.slice(dot) : "";
+	for (let i = 1; ; i++) {
+		const candidate = `${base}_${i}${ext}`;
+		if (!taken.has(candidate) && !(await pathExists(candidate))) {
+			return candidate;
+		}
+	}
+}
+
+async function moveFile(from: string, to: string) {
+	try {
+		await Deno.rename(from, to);
+	} catch (e) {
+		// rename cannot cross file systems; copy and delete instead
+		if (!(e instanceof Error) || !/cross-device|os error 18/i.test(e.message)) {
+			throw e;
+		}
+		await Deno.copyFile(from, to);
+		await Deno.remove(from);
+	}
+}
+
+async function organize(results: MediaCoords[], options: OrganizeOptions) {
+	const operations: OrganizeManifest["operations"] = [];
+	const planned = new Set<string>();
+	let filtered = 0;
+	let skipped = 0;
+	for (const r of results) {
+		if (!passesFilters(r, options)) {
+			filtered++;
+			continue;
+		}
+		const values = templateValues(r);
+		let to = `${options.dest}/${options.template.replace(
+			/\{(\w+)\}/g,
+			(_, token: string) => values[token],
+		)}`;
+		if (to === r.file) continue; // Already in place
+		let overwrote = false;
+		if (planned.has(to)) {
+			to = await uniquePath(to, planned); // Never overwrite a file placed in this run
+		} else if (await pathExists(to)) {
+			if (options.onCollision === "skip") {
+				console.error(`Skipping ${r.file}: ${to} already exists.`);
+				skipped++;
+				continue;
+			}
+			if (options.onCollision === "rename") {
+				to = await uniquePath(to, planned);
+			} else {
+				overwrote = true;
+			}
+		}
+		planned.add(to);
+		operations.push({ from: r.file, to, ...(overwrote ? { overwrote } : {}) });
+	}
+
+	const manifest: OrganizeManifest = {
+		created: new Date().toISOString(),
+		mode: options.copy ? "copy" : "move",
+		dest: options.dest,
+		operations: [],
+	};
+	const manifestPath =
+		options.manifest ??
+		`${options.dest}/organize-manifest-${manifest.created.replace(/[:.]/g, "-")}.json`;
+	try {
+		for (const op of operations) {
+			console.log(
+				`${options.dryRun ? "[dry-run] " : ""}${op.from} -> ${op.to}`,
+			);
+			if (options.dryRun) continue;
+			await Deno.mkdir(dirName(op.to), { recursive: true });
+			if (options.copy) {
+				await Deno.copyFile(op.from, op.to);
+			} else {
+				await moveFile(op.from, op.to);
+			}
+			manifest.operations.push(op);
+		}
+	} finally {
+		// Record whatever was done, even if a later file failed
+		if (manifest.operations.length > 0) {
+			await Deno.mkdir(dirName(manifestPath), { recursive: true });
+			await Deno.writeTextFile(manifestPath, JSON.stringify(manifest, null, 2));
+			console.error(`Undo manifest written to ${manifestPath}`);
+		}
+	}
+
+	const verb = options.dryRun
+		? "Would " + (options.copy ? "copy" : "move")
+		: options.copy
+			? "Copied"
+			: "Moved";
+	console.error(
+		`${verb} ${operations.length} file${operations.length === 1 ? "" : "s"}` +
+			(skipped > 0 ? `, skipped ${skipped} existing` : "") +
+			(filtered > 0 ? `, ${filtered} filtered out` : "") +
+			".",
+	);
+}
+
+// Reverts an organize run: moves files back, or deletes the copies
+async function undoOrganize(manifestPath: string, dryRun: boolean) {
+	const manifest: OrganizeManifest = JSON.parse(
+		await Deno.readTextFile(manifestPath),
+	);
+	let reverted = 0;
+	for (const op of [...manifest.operations].reverse()) {
+		if (!(await pathExists(op.to))) {
+			console.error(`Skipping ${op.to}: it no longer exists.`);
+			continue;
+		}
+		if (manifest.mode === "move" && (await pathExists(op.from))) {
+			console.error(`Skipping ${op.to}: ${op.from} exists again.`);
+			continue;
+		}
+		if (op.overwrote) {
+			console.error(
+				`Note: ${op.to} replaced an earlier file, which cannot be restored.`,
+			);
+		}
+		console.log(
+			`${dryRun ? "[dry-run] " : ""}${op.to} -> ${manifest.mode === "copy" ? "(deleted)" : op.from}`,
+		);
+		reverted++;
+		if (dryRun) continue;
+		if (manifest.mode === "copy") {
+			await Deno.remove(op.to);
+		} else {
+			await Deno.mkdir(dirName(op.from), { recursive: true });
+			await moveFile(op.to, op.from);
+		}
+		// Clean up the folders the run created, up to --dest
+		for (
+			let dir = dirName(op.to);
+			dir.startsWith(`${manifest.dest}/`);
+			dir = dirName(dir)
+		) {
+			try {
+				await Deno.remove(dir); // Fails once a folder is not empty
+			} catch {
+				break;
+			}
+		}
+	}
+	console.error(
+		`${dryRun ? "Would revert" : "Reverted"} ${reverted} of ${manifest.operations.length} operations.`,
+	);
 }
 
 async function collectFiles(pathOrGlob: string): Promise<string[]> {
@@ -65,14 +1461,14 @@ async function collectFiles(pathOrGlob: string): Promise<string[]> {
 	// Try as direct path first
 	try {
 		const info = await Deno.stat(pathOrGlob);
-		if (info.isFile && pathOrGlob.toLowerCase().endsWith(".mov")) {
+		if (info.isFile) {
 			return [pathOrGlob];
 		}
 		if (info.isDirectory) {
-			for await (const entry of expandGlob(`${pathOrGlob}/**/*.MOV`, {
-				caseInsensitive: true,
-			})) {
-				if (entry.isFile) files.push(entry.path);
+			for await (const entry of expandGlob(`${pathOrGlob}/**/*`)) {
+				if (entry.isFile && extensions.has(extensionOf(entry.path))) {
+					files.push(entry.path);
+				}
 			}
 			return files;
 		}
@@ -82,7 +1478,7 @@ async function collectFiles(pathOrGlob: string): Promise<string[]> {
 
 	// Treat as glob pattern
 	for await (const entry of expandGlob(pathOrGlob, { caseInsensitive: true })) {
-		if (entry.isFile && entry.path.toLowerCase().endsWith(".mov")) {
+		if (entry.isFile && extensions.has(extensionOf(entry.path))) {
 			files.push(entry.path);
 		}
 	}
@@ -90,26 +1486,205 @@ async function collectFiles(pathOrGlob: string): Promise<string[]> {
 	return files;
 }
 
-// Gather files from *all* provided arguments
-let files: string[] = [];
+if (subcommand === "undo") {
+	try {
+		await undoOrganize(targetPaths[0], flags["dry-run"]);
+	} catch (e) {
+		console.error(`Undo failed: ${e instanceof Error ? e.message : e}`);
+		Deno.exit(1);
+	}
+	Deno.exit(0);
+}
+
+// Gather files from *all* provided arguments, once each even if several match
+const files: string[] = [];
+const seen = new Set<string>();
 for (const p of targetPaths) {
-	files = files.concat(await collectFiles(p));
+	for (const file of await collectFiles(p)) {
+		const key = await Deno.realPath(file).catch(() => file);
+		if (seen.has(key)) continue;
+		seen.add(key);
+		files.push(file);
+	}
 }
 
 if (files.length === 0) {
-	console.error("No matching .MOV files found.");
+	console.error(
+		`No matching files found (extensions: ${[...extensions].join(", ")}).`,
+	);
 	Deno.exit(1);
 }
 
-const results = await extractWithExiftool(files);
+try {
+	await new Deno.Command("exiftool", { args: ["-ver"] }).output();
+} catch (e) {
+	if (!(e instanceof Deno.errors.NotFound)) throw e;
+	console.error(
+		"exiftool was not found. Install it from https://exiftool.org/.",
+	);
+	Deno.exit(1);
+}
 
-if (outputCSV) {
-	console.log("file,latitude,longitude,creationDate");
-	for (const r of results) {
-		console.log(
-			`${r.file},${r.latitude ?? ""},${r.longitude ?? ""},${r.creationDate ?? ""}`,
+const streamRows = ["csv", "tsv", "ndjson"].includes(outputFormat);
+if (streamRows && !organizeOptions) {
+	await writeStdout(formatRows(outputFormat, columns, [], true));
+}
+
+const failures: ReadFailure[] = [];
+
+if (flags.track) {
+	const tracks: Track[] = [];
+	let found = 0;
+	for await (const batch of extractTracks(files, failures)) {
+		found += batch.length;
+		if (flags.tz) {
+			// Sample times are UTC (GPSDateTime)
+			const zone = flags.tz;
+			for (const t of batch) {
+				for (const s of t.samples) {
+					if (s.time) s.time = inTimezone(s.time, zone);
+				}
+				if (t.stats.start) t.stats.start = inTimezone(t.stats.start, zone);
+				if (t.stats.end) t.stats.end = inTimezone(t.stats.end, zone);
+			}
+		}
+		for (const { file, speedUnit, stats } of batch) {
+			const [west, south, east, north] = stats.bbox;
+			console.error(
+				`${file}: ${stats.samples} samples, ${stats.distanceKm.toFixed(2)} km` +
+					(stats.durationSeconds === null
+						? ""
+						: `, ${formatDuration(stats.durationSeconds)}`) +
+					`, bbox ${west},${south},${east},${north}` +
+					(speedUnit ? ` (speed in ${speedUnit})` : ""),
+			);
+		}
+		if (streamRows) {
+			await writeStdout(
+				formatRows(
+					outputFormat,
+					columns,
+					batch.flatMap((t) =>
+						t.samples.map((s) =>
+							columns.map((column) => SAMPLE_COLUMNS[column](t, s)),
+						),
+					),
+					false,
+				),
+			);
+		} else {
+			tracks.push(...batch);
+		}
+	}
+	const missing = files.length - failures.length - found;
+	if (missing > 0) {
+		console.error(
+			`No GPS track found in ${missing} file${missing === 1 ? "" : "s"}.`,
 		);
 	}
+
+	if (outputFormat === "geojson") {
+		console.log(tracksToGeoJSON(tracks));
+	} else if (outputFormat === "gpx") {
+		console.log(tracksToGPX(tracks));
+	} else if (outputFormat === "kml") {
+		console.log(tracksToKML(tracks));
+	} else if (!streamRows) {
+		console.log(JSON.stringify(tracks, null, 2));
+	}
 } else {
-	console.log(JSON.stringify(results, null, 2));
+	let gazetteer: PlaceNode | null = null;
+	if (flags.geocode) {
+		try {
+			gazetteer = await loadGazetteer(flags.geocode);
+		} catch (e) {
+			console.error(
+				`Could not load gazetteer: ${e instanceof Error ? e.message : e}`,
+			);
+			Deno.exit(1);
+		}
+	}
+
+	const results: MediaCoords[] = [];
+	for await (const batch of extractWithExiftool(files, failures)) {
+		for (const r of batch) {
+			if (gazetteer) {
+				if (r.latitude === null || r.longitude === null) {
+					r.place = null;
+				} else {
+					const place = nearestPlace(gazetteer, r.latitude, r.longitude);
+					r.place = {
+						name: place.name,
+						region: place.region,
+						countryCode: place.countryCode,
+						timezone: place.timezone || null,
+						distanceKm:
+							Math.round(
+								haversineKm(place, {
+									latitude: r.latitude,
+									longitude: r.longitude,
+								}) * 10,
+							) / 10,
+					};
+				}
+			}
+
+			if (r.creationDate) {
+				// An offset recorded by the camera wins over one guessed from the location
+				const hasLocalOffset = /[+-]\d{2}:\d{2}$/.test(r.creationDate);
+				const zone = flags.tz ?? (hasLocalOffset ? null : r.place?.timezone);
+				if (zone) r.creationDate = inTimezone(r.creationDate, zone);
+			}
+		}
+		if (streamRows && !organizeOptions) {
+			await writeStdout(
+				formatRows(
+					outputFormat,
+					columns,
+					batch.map((r) => columns.map((column) => RESULT_COLUMNS[column](r))),
+					false,
+				),
+			);
+		} else {
+			results.push(...batch);
+		}
+	}
+
+	if (organizeOptions) {
+		try {
+			await organize(results, organizeOptions);
+		} catch (e) {
+			console.error(`Organize failed: ${e instanceof Error ? e.message : e}`);
+			Deno.exit(1);
+		}
+	} else if (["geojson", "gpx", "kml"].includes(outputFormat)) {
+		const located = results.filter(
+			(r): r is Located => r.latitude !== null && r.longitude !== null,
+		);
+		const skipped = results.length - located.length;
+		if (skipped > 0) {
+			console.error(
+				`Skipped ${skipped} file${skipped === 1 ? "" : "s"} without coordinates.`,
+			);
+		}
+		if (outputFormat === "geojson") {
+			console.log(toGeoJSON(located));
+		} else if (outputFormat === "gpx") {
+			console.log(toGPX(located, flags["gpx-track"]));
+		} else {
+			console.log(toKML(located));
+		}
+	} else if (!streamRows) {
+		console.log(JSON.stringify(results, null, 2));
+	}
+}
+
+if (failures.length > 0) {
+	console.error(
+		`Could not read metadata from ${failures.length} file${failures.length === 1 ? "" : "s"}:`,
+	);
+	for (const { file, reason } of failures) {
+		console.error(`  ${file}: ${reason}`);
+	}
+	if (failures.length === files.length) Deno.exit(1);
 }
@@ -0,0 +1,209 @@
+import { assertEquals, assertInstanceOf, assertRejects } from "https://deno.land/std@0.224.0/assert/mod.ts"
+import {
+  type AdfNode,
+  adfToText,
+  findNonMarkdownAdfTypes,
+  JiraApiError,
+  JiraAuthError,
+  JiraClient,
+  JiraError,
+  JiraNetworkError,
+  JiraNotFoundError,
+  JiraRateLimitError,
+  JiraResponseError,
+  JiraServerError,
+  JiraTimeoutError,
+  markdownToAdf,
+  UsageError,
+} from "./jira"
+
+const user = { accountId: "1", emailAddress: "ada@example.com", displayName: "Ada", active: true }
+
+/**
+ * Runs `fn` with a client for a local server that answers every request with `handler`.
+ * @param handler - Answers a request, given how many requests came in so far, this one included.
+ * @param fn - The test, given the client and a function returning the number of requests.
+ * @param options - The client options. Retries are off unless set.
+ */
+async function withServer(
+  handler: (hits: number) => Response | Promise<Response>,
+  fn: (client: JiraClient, hits: () => number) => Promise<void>,
+  options: { timeoutMs?: number; maxRetries?: number } = {}
+) {
+  let hits = 0
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, () => handler(++hits))
+  try {
+    const client = new JiraClient(`http://127.0.0.1:${server.addr.port}`, "ada@example.com", "token", {
+      maxRetries: 0,
+      ...options,
+    })
+    await fn(client, () => hits)
+  } finally {
+    await server.shutdown()
+  }
+}
+
+Deno.test("JiraClient retries a rate limit after Retry-After", async () => {
+  await withServer(
+    (hits) => (hits <= 2 ? new Response("", { status: 429, headers: { "Retry-After": "0" } }) : Response.json(user)),
+    async (client, hits) => {
+      const start = Date.now()
+      assertEquals(await client.getSelf(), user)
+      assertEquals(hits(), 3)
+      // Without Retry-After, the first retry alone waits at least 500ms
+      assertEquals(Date.now() - start < 500, true)
+    },
+    { maxRetries: 3 }
+  )
+})
+
+Deno.test("JiraClient throws JiraRateLimitError when rate limits outlast the retries", async () => {
+  await withServer(
+    () => new Response("", { status: 429, headers: { "Retry-After": "0" } }),
+    async (client, hits) => {
+      await assertRejects(() => client.getSelf(), JiraRateLimitError, "429")
+      assertEquals(hits(), 2)
+    },
+    { maxRetries: 1 }
+  )
+})
+
+Deno.test("JiraClient backs off on server errors until the retries run out", async () => {
+  await withServer(
+    () => new Response("<html>Down for maintenance</html>", { status: 503 }),
+    async (client, hits) => {
+      const start = Date.now()
+      const error = await assertRejects(() => client.getSelf(), JiraServerError, "503")
+      assertEquals(hits(), 2)
+      assertEquals(Date.now() - start >= 500, true)
+      // HTML pages are left out of the message
+      assertEquals(error.message.includes("<html>"), false)
+    },
+    { maxRetries: 1 }
+  )
+})
+
+Deno.test("JiraClient throws JiraTimeoutError when Jira does not answer in time", async () => {
+  await withServer(
+    async () => {
+      await new Promise((resolve) => setTimeout(resolve, 300))
+      return Response.json(user)
+    },
+    async (client) => {
+      await assertRejects(() => client.getSelf(), JiraTimeoutError, "no response from Jira within 0.05s")
+    },
+    { timeoutMs: 50 }
+  )
+})
+
+Deno.test("JiraClient throws JiraResponseError for a successful response that is not JSON", async () => {
+  await withServer(
+    () => new Response("<html>Sign in</html>"),
+    async (client) => {
+      await assertRejects(() => client.getSelf(), JiraResponseError, "expected JSON")
+    }
+  )
+})
+
+Deno.test("JiraClient throws the error class matching the status", async () => {
+  for (const [status, errorClass] of [
+    [400, JiraApiError],
+    [401, JiraAuthError],
+    [403, JiraAuthError],
+    [404, JiraNotFoundError],
+  ] as const) {
+    await withServer(
+      () => Response.json({ errorMessages: ["Nope"] }, { status }),
+      async (client) => {
+        const error = await assertRejects(() => client.getSelf(), errorClass, "Nope")
+        assertEquals((error as JiraApiError).status, status)
+      }
+    )
+  }
+})
+
+Deno.test("JiraError subclasses map to their exit codes", () => {
+  const errors: [JiraError, number][] = [
+    [new JiraError("unexpected"), 1],
+    [new JiraApiError("rejected", 400, ""), 2],
+    [new JiraAuthError("unauthorized", 401, ""), 3],
+    [new JiraNotFoundError("not found", 404, ""), 4],
+    [new JiraRateLimitError("rate limited", 429, ""), 5],
+    [new JiraServerError("server error", 503, ""), 6],
+    [new JiraNetworkError("unreachable"), 7],
+    [new JiraTimeoutError("timed out"), 8],
+    [new JiraResponseError("not JSON"), 9],
+    [new UsageError("bad option"), 10],
+  ]
+  for (const [error, exitCode] of errors) {
+    assertInstanceOf(error, JiraError)
+    assertEquals(error.exitCode, exitCode, error.name)
+  }
+})
+
+Deno.test("markdownToAdf rebuilds every node and mark type adfToText writes as Markdown", () => {
+  const text = (value: string, ...marks: string[]): AdfNode =>
+    marks.length > 0
+      ? { type: "text", text: value, marks: marks.map((type) => ({ type })) }
+      : { type: "text", text: value }
+  const paragraph = (...content: AdfNode[]): AdfNode => ({ type: "paragraph", content })
+  const doc: AdfNode = {
+    type: "doc",
+    version: 1,
+    content: [
+      { type: "heading", attrs: { level: 2 }, content: [text("Plan")] },
+      paragraph(
+        text("Some "),
+        text("bold", "strong"),
+        text(", "),
+        text("italic", "em"),
+        text(", "),
+        text("struck", "strike"),
+        text(" and "),
+        text("code", "code"),
+        { type: "hardBreak" },
+        { type: "text", text: "a link", marks: [{ type: "link", attrs: { href: "https://example.com" } }] }
+      ),
+      {
+        type: "bulletList",
+        content: [
+          {
+            type: "listItem",
+            content: [
+              paragraph(text("First")),
+              {
+                type: "orderedList",
+                content: [{ type: "listItem", content: [paragraph(text("Nested"))] }],
+                attrs: { order: 3 },
+              },
+            ],
+          },
+          { type: "listItem", content: [paragraph(text("Second"))] },
+        ],
+      },
+      { type: "codeBlock", attrs: { language: "ts" }, content: [text("const a = 1\nconst b = 2")] },
+      { type: "blockquote", content: [paragraph(text("Quoted")), paragraph(text("Twice"))] },
+      { type: "rule" },
+    ],
+  }
+  assertEquals(findNonMarkdownAdfTypes(doc), [])
+  assertEquals(markdownToAdf(adfToText(doc, true)), doc)
+})
+
+Deno.test("findNonMarkdownAdfTypes finds content Markdown cannot keep", () => {
+  const doc: AdfNode = {
+    type: "doc",
+    content: [
+      { type: "mediaSingle", content: [{ type: "media", attrs: { id: "1", type: "file" } }] },
+      {
+        type: "paragraph",
+        content: [
+          { type: "mention", attrs: { id: "1", text: "@Ada" } },
+          { type: "text", text: "underlined", marks: [{ type: "underline" }] },
+        ],
+      },
+      { type: "panel", content: [{ type: "paragraph", content: [{ type: "text", text: "Note" }] }] },
+    ],
+  }
+  assertEquals(findNonMarkdownAdfTypes(doc), ["mediaSingle", "mention", "underline", "panel"])
+})
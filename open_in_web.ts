@@ -15,27 +15,73 @@ enum LogLevel {
 	WARN = "WARN",
 	ERROR = "ERROR",
 	SUCCESS = "SUCCESS",
-	DEBUG = "DEBUG", // For general logging like "Opening URL"
+	HINT = "HINT", // Suggestions on how to fix or work around a problem
+	DEBUG = "DEBUG", // For tracing, like commands run and the URL being opened
 	LOG = "LOG", // For direct console output like help text
 }
 
+/** Lowest level that is printed; "silent" prints nothing. */
+export type LogThreshold = "debug" | "info" | "warn" | "error" | "silent";
+export type LogFormat = "text" | "json";
+
 const LOG_PREFIXES: { [key in LogLevel]: string } = {
 	[LogLevel.INFO]: "ℹ️",
 	[LogLevel.WARN]: "⚠️",
 	[LogLevel.ERROR]: "❌",
 	[LogLevel.SUCCESS]: "✅",
+	[LogLevel.HINT]: "💡",
 	[LogLevel.DEBUG]: "🌐",
 	[LogLevel.LOG]: "", // No prefix for direct logs
 };
 
+// Used instead of emoji when NO_COLOR is set or output is not a terminal
+const PLAIN_LOG_PREFIXES: { [key in LogLevel]: string } = {
+	[LogLevel.INFO]: "info:",
+	[LogLevel.WARN]: "warning:",
+	[LogLevel.ERROR]: "error:",
+	[LogLevel.SUCCESS]: "ok:",
+	[LogLevel.HINT]: "hint:",
+	[LogLevel.DEBUG]: "debug:",
+	[LogLevel.LOG]: "",
+};
+
+const LOG_SEVERITY: { [key in LogLevel]: number } = {
+	[LogLevel.DEBUG]: 0,
+	[LogLevel.INFO]: 1,
+	[LogLevel.SUCCESS]: 1,
+	[LogLevel.HINT]: 1,
+	[LogLevel.LOG]: 1,
+	[LogLevel.WARN]: 2,
+	[LogLevel.ERROR]: 3,
+};
+
+const LOG_THRESHOLDS: { [key in LogThreshold]: number } = {
+	debug: 0,
+	info: 1,
+	warn: 2,
+	error: 3,
+	silent: 4,
+};
+
 export class Logger {
+	/** Routes all log output to stderr, keeping stdout for machine-readable output. */
+	public static useStderr = false;
+	/** Messages below this level are dropped. */
+	public static level: LogThreshold = "info";
+	/** "json" writes one timestamped record per message to stderr. */
+	public static format: LogFormat = "text";
+	/** Forces plain (true) or emoji (false) prefixes; by default plain for NO_COLOR or non-terminals. */
+	public static plain?: boolean;
+
 	/**
 	 * Core private static logging function.
 	 * @param level - The level of the log.
 	 * @param messages - Messages to log.
 	 */
 	private static _log(level: LogLevel, ...messages: unknown[]): void {
-		const prefix = LOG_PREFIXES[level]; // Handle different types for messages more robustly
+		if (LOG_SEVERITY[level] < LOG_THRESHOLDS[this.level]) return;
+
+		// Handle different types for messages more robustly
 		const messageStr = messages
 			.map((msg) => {
 				if (typeof msg === "string") return msg;
@@ -54,6 +100,27 @@ export class Logger {
 			})
 			.join(" ");
 
+		if (this.format === "json") {
+			console.error(
+				JSON.stringify({
+					time: new Date().toISOString(),
+					level: level.toLowerCase(),
+					message: messageStr,
+				}),
+			);
+			return;
+		}
+
+		// Diagnostics go to stderr; informational output to stdout unless useStderr is set
+		const toStderr =
+			this.useStderr ||
+			level === LogLevel.ERROR ||
+			level === LogLevel.WARN ||
+			level === LogLevel.DEBUG;
+		const plain =
+			this.plain ??
+			(Deno.noColor || !(toStderr ? Deno.stderr : Deno.stdout).isTerminal());
+		const prefix = (plain ? PLAIN_LOG_PREFIXES : LOG_PREFIXES)[level];
 		const fullMessage = prefix ? `${prefix} ${messageStr}` : messageStr;
 
 		switch (level) {
@@ -63,16 +130,12 @@ export class Logger {
 			case LogLevel.WARN:
 				console.warn(fullMessage);
 				break;
-			case LogLevel.INFO:
-			case LogLevel.SUCCESS:
-			case LogLevel.DEBUG:
-				console.info(fullMessage); // console.debug is often an alias for console.info or console.log
-				break;
-			case LogLevel.LOG:
-				console.log(fullMessage); // For help text, no prefix, direct log
-				break;
-			default: // Fallback for any unknown levels, though LogLevel enum should prevent this.
-				console.log(`[${level}] ${fullMessage}`);
+			default:
+				if (toStderr) {
+					console.error(fullMessage);
+					break;
+				}
+				console.log(fullMessage); // Informational messages
 		}
 	} /** Logs an informational message. */
 
@@ -90,6 +153,10 @@ export class Logger {
 
 	public static success(...messages: unknown[]): void {
 		this._log(LogLevel.SUCCESS, ...messages);
+	} /** Logs a hint on what to do next. */
+
+	public static hint(...messages: unknown[]): void {
+		this._log(LogLevel.HINT, ...messages);
 	} /** Logs a debug message. */
 
 	public static debug(...messages: unknown[]): void {
@@ -101,25 +168,182 @@ export class Logger {
 		this._log(LogLevel.LOG, ...messages);
 	}
 }
+
+/**
+ * Applies --quiet, --verbose, --log-level and --log-format to the Logger.
+ * @returns The remaining arguments.
+ */
+export function configureLogging(args: string[]): string[] {
+	const rest: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === "--quiet" || arg === "-q") {
+			Logger.level = "error";
+		} else if (arg === "--verbose" || arg === "-v") {
+			Logger.level = "debug";
+		} else if (arg === "--log-level") {
+			const value = args[++i];
+			if (!Object.hasOwn(LOG_THRESHOLDS, value ?? "")) {
+				throw new InvalidOptionsError(
+					`${arg} must be one of: ${Object.keys(LOG_THRESHOLDS).join(", ")}.`,
+				);
+			}
+			Logger.level = value as LogThreshold;
+		} else if (arg === "--log-format") {
+			const value = args[++i];
+			if (value !== "text" && value !== "json") {
+				throw new InvalidOptionsError(`${arg} must be one of: text, json.`);
+			}
+			Logger.format = value;
+		} else {
+			rest.push(arg);
+		}
+	}
+	return rest;
+}
 // --- End Logger Utility ---
 
+// --- Errors ---
+/** Base class of the errors thrown by the library functions; messages are meant for users. */
+export class OpenInWebError extends Error {
+	/** A suggestion on how to fix the problem. */
+	readonly hint?: string;
+
+	constructor(message: string, options?: { hint?: string; cause?: unknown }) {
+		super(message, { cause: options?.cause });
+		this.name = new.target.name;
+		this.hint = options?.hint;
+	}
+}
+
+/** Options (or command-line flags) that are missing a value or cannot be combined. */
+export class InvalidOptionsError extends OpenInWebError {}
+
+/** The current directory is not inside a Git repository with commits. */
+export class NotAGitRepoError extends OpenInWebError {}
+
+/** The requested remote does not exist, or the repository has none. */
+export class NoRemoteError extends OpenInWebError {}
+
+/** The remote's host is not mapped to a provider, so no file URL can be built. */
+export class UnsupportedProviderError extends OpenInWebError {
+	readonly hostname: string;
+
+	constructor(hostname: string) {
+		super(
+			`Unsupported provider at host '${hostname}'. Cannot construct file URL.`,
+			{
+				hint: `Map the host to a provider (${Object.keys(PROVIDERS).join(", ")}) with:\n   git config --global openinweb.${hostname}.provider <type>\n   or in ${getConfigFilePath() ?? "~/.config/open_in_web/config.json"}: { "providers": { "${hostname}": "<type>" } }`,
+			},
+		);
+		this.hostname = hostname;
+	}
+}
+
+/** The path lies outside the current repository. */
+export class PathOutsideRepoError extends OpenInWebError {}
+
+/** The selection text was not found, or only with too low a confidence. */
+export class SelectionNotFoundError extends OpenInWebError {}
+
+/** No declaration of the symbol was found. */
+export class SymbolNotFoundError extends OpenInWebError {}
+
+/** The file to search for a selection or symbol could not be read. */
+export class FileReadError extends OpenInWebError {}
+
+/** A permalink would 404 (unpushed commit) or point at the wrong lines (dirty file). */
+export class PermalinkRefusedError extends OpenInWebError {}
+
+/** A command run by runCommand exited with a non-zero code. */
+export class CommandFailedError extends OpenInWebError {
+	readonly cmd: string[];
+	readonly code: number;
+	readonly stderr: string;
+
+	constructor(cmd: string[], code: number, stderr: string) {
+		super(
+			`Command "${cmd.join(" ")}" failed with code ${code}.${stderr ? `\nStderr: ${stderr}` : ""}`,
+		);
+		this.cmd = cmd;
+		this.code = code;
+		this.stderr = stderr;
+	}
+}
+// --- End Errors ---
+
+/**
+ * How a selection is matched against file lines:
+ * - exact: each selection line is a literal substring of consecutive file lines
+ * - whitespace: as exact, but ignoring indentation, tab/space and trailing whitespace differences
+ * - fuzzy: as whitespace, but tolerating small edits within lines
+ * - regex: the selection is a regular expression over the whole file
+ * - auto: exact, then whitespace, then fuzzy, stopping at the first mode that matches
+ */
+export type SelectionMatchMode =
+	"auto" | "exact" | "whitespace" | "fuzzy" | "regex";
+
+export interface SelectionMatchOptions {
+	mode?: SelectionMatchMode;
+	/** Minimum average line similarity (0-1) for fuzzy matches. Defaults to 0.8. */
+	fuzzyThreshold?: number;
+}
+
+/** A located selection; all positions are 1-based. */
+export interface SelectionMatch {
+	startLine: number;
+	startColumn: number;
+	endLine: number;
+	endColumn: number;
+	/** 1 for exact matches, lower the more the file had to be normalized or edited to match. */
+	confidence: number;
+}
+
+/** The chosen match plus every candidate that was found (sorted by line). */
+export interface SelectionPosition extends SelectionMatch {
+	matches: SelectionMatch[];
+}
+
+/** Collapses whitespace runs and trims, so re-indented or re-spaced lines compare equal. */
+function normalizeWhitespace(line: string): string {
+	return line.replace(/\s+/g, " ").trim();
+}
+
+/** Similarity of two strings from 0 to 1, based on Levenshtein distance. */
+export function stringSimilarity(a: string, b: string): number {
+	if (a === b) return 1;
+	if (a.length === 0 || b.length === 0) return 0;
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+	return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
 /**
  * Finds the start and end line/column of a given text selection within a file.
+ * All matches are collected; the one nearest hintLine (or the first) is chosen.
  * @param filePath Path to the file.
  * @param selection The text selection to find.
  * @param hintLine An optional 1-based line number to start searching near.
- * @returns An object with 1-based startLine, startColumn, endLine, endColumn, or null if not found.
+ * @param options Matching mode (default "auto") and fuzzy threshold.
+ * @returns The chosen match (1-based positions) with all candidates, or null if not found.
  */
 export async function getSelectionPosition(
 	filePath: string,
 	selection: string,
 	hintLine?: number, // 1-based
-): Promise<{
-	startLine: number;
-	startColumn: number;
-	endLine: number;
-	endColumn: number;
-} | null> {
+	options: SelectionMatchOptions = {},
+): Promise<SelectionPosition | null> {
+	const { mode = "auto", fuzzyThreshold = 0.8 } = options;
 	const decoder = new TextDecoder("utf-8");
 	const content = decoder
 		.decode(await Deno.readFile(filePath))
@@ -128,111 +352,174 @@ export async function getSelectionPosition(
 	const selectionLines = selection.replace(/\r\n/g, "\n").split("\n");
 	const selLen = selectionLines.length;
 
-	const matchesAt = (lineIdx: number): boolean => {
-		if (lineIdx < 0 || lineIdx + selLen > fileLines.length) return false;
+	const findColumn = (line: string, target: string): number => {
+		const col = line.indexOf(target);
+		return col === -1 ? -1 : col + 1; // 1-based column
+	};
+
+	// Builds a match for lines [lineIdx, lineIdx + selLen); columns fall back to the
+	// first non-blank character / end of line when the selection text was normalized.
+	const toMatch = (lineIdx: number, confidence: number): SelectionMatch => {
+		const first = fileLines[lineIdx];
+		const last = fileLines[lineIdx + selLen - 1];
+		const firstSel = selectionLines[0];
+		const lastSel = selectionLines[selLen - 1];
+		let startColumn = findColumn(first, firstSel);
+		if (startColumn === -1) startColumn = findColumn(first, firstSel.trim());
+		if (startColumn === -1) startColumn = first.search(/\S|$/) + 1;
+		let endColumn = findColumn(last, lastSel);
+		if (endColumn !== -1) {
+			endColumn += lastSel.length - 1;
+		} else if (lastSel.trim() && findColumn(last, lastSel.trim()) !== -1) {
+			endColumn = findColumn(last, lastSel.trim()) + lastSel.trim().length - 1;
+		} else {
+			endColumn = Math.max(last.trimEnd().length, 1);
+		}
+		return {
+			startLine: lineIdx + 1, // Convert 0-based index to 1-based line number
+			startColumn,
+			endLine: lineIdx + selLen,
+			endColumn,
+			confidence,
+		};
+	};
+
+	// Scores the selection against the file at lineIdx, or returns null if it does not match.
+	const scoreAt = (
+		lineIdx: number,
+		lineMode: "exact" | "whitespace" | "fuzzy",
+	): number | null => {
+		let similarityTotal = 0;
+		let literalLines = 0;
+		let normalizedLines = 0;
 		for (let i = 0; i < selLen; i++) {
+			const fileLine = fileLines[lineIdx + i];
+			const selLine = selectionLines[i];
 			// Check if the file line *includes* the corresponding selection line.
 			// This allows selection lines to be substrings of file lines if the selection is not perfectly aligned.
-			if (!fileLines[lineIdx + i].includes(selectionLines[i])) return false;
+			if (fileLine.includes(selLine)) {
+				similarityTotal += 1;
+				literalLines++;
+				continue;
+			}
+			if (lineMode === "exact") return null;
+			const normFile = normalizeWhitespace(fileLine);
+			const normSel = normalizeWhitespace(selLine);
+			if (normFile.includes(normSel)) {
+				similarityTotal += 1;
+				normalizedLines++;
+				continue;
+			}
+			if (lineMode === "whitespace") return null;
+			similarityTotal += stringSimilarity(normFile, normSel);
+			// Bail out once the remaining lines can no longer lift the average over the threshold
+			if ((similarityTotal + selLen - i - 1) / selLen < fuzzyThreshold) {
+				return null;
+			}
 		}
-		return true;
+		if (literalLines === selLen) return 1;
+		if (literalLines + normalizedLines === selLen) return 0.95;
+		const similarity = similarityTotal / selLen;
+		return similarity >= fuzzyThreshold ? 0.9 * similarity : null;
 	};
 
-	const findColumn = (line: string, target: string): number => {
-		const col = line.indexOf(target);
-		return col === -1 ? -1 : col + 1; // 1-based column
-	}; // Core search logic
-
-	let matchStartLine: number | null = null; // 1-based
-
-	const scan = (startLineIndex: number, direction: "up" | "down") => {
-		const step = direction === "up" ? -1 : 1; // Adjust loop bounds for multi-line selections
-		for (
-			let currentLineIndex = startLineIndex;
-			direction === "up"
-				? currentLineIndex >= 0
-				: currentLineIndex <= fileLines.length - selLen;
-			currentLineIndex += step
-		) {
-			if (matchesAt(currentLineIndex)) {
-				matchStartLine = currentLineIndex + 1; // Convert 0-based index to 1-based line number
+	// Core search logic
+	let matches: SelectionMatch[] = [];
+	if (mode === "regex") {
+		const regex = new RegExp(selection, "gm");
+		const lineStarts = [0];
+		for (let i = 0; i < content.length; i++) {
+			if (content[i] === "\n") lineStarts.push(i + 1);
+		}
+		const toPosition = (offset: number) => {
+			let line = 0;
+			while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+				line++;
+			}
+			return { line: line + 1, column: offset - lineStarts[line] + 1 };
+		};
+		for (const match of content.matchAll(regex)) {
+			if (match[0].length === 0) continue; // Zero-width matches don't select anything
+			const start = toPosition(match.index!);
+			const end = toPosition(match.index! + match[0].length - 1);
+			matches.push({
+				startLine: start.line,
+				startColumn: start.column,
+				endLine: end.line,
+				endColumn: end.column,
+				confidence: 1,
+			});
+		}
+	} else {
+		const lineModes: ("exact" | "whitespace" | "fuzzy")[] =
+			mode === "auto" ? ["exact", "whitespace", "fuzzy"] : [mode];
+		let matchedMode: string | undefined;
+		for (const lineMode of lineModes) {
+			for (let lineIdx = 0; lineIdx <= fileLines.length - selLen; lineIdx++) {
+				const confidence = scoreAt(lineIdx, lineMode);
+				if (confidence != null) matches.push(toMatch(lineIdx, confidence));
+			}
+			if (matches.length > 0) {
+				matchedMode = lineMode;
 				break;
 			}
 		}
-	};
-
-	if (hintLine != null && hintLine > 0 && hintLine <= fileLines.length) {
-		const zeroBasedHintLine = hintLine - 1; // Scan down from hint (inclusive of hint line itself for the start of a multi-line match)
-		scan(zeroBasedHintLine, "down"); // If not found, scan up from just before the hint line
-		if (matchStartLine === null) {
-			scan(zeroBasedHintLine - 1, "up");
+		if (matchedMode === "fuzzy") {
+			// Fuzzy windows overlap; keep only the best-scoring match among overlapping ones
+			matches = matches.filter(
+				(m) =>
+					!matches.some(
+						(other) =>
+							other !== m &&
+							Math.abs(other.startLine - m.startLine) < selLen &&
+							(other.confidence > m.confidence ||
+								(other.confidence === m.confidence &&
+									other.startLine < m.startLine)),
+					),
+			);
 		}
-	} // Fallback: full scan if no match found around hint or no hint provided
-
-	if (matchStartLine === null) {
-		scan(0, "down"); // Scan from the beginning of the file
 	}
 
-	if (matchStartLine === null) return null; // Selection not found
-
-	const actualStartLineIndex = matchStartLine - 1; // Convert back to 0-based for array access
-	const actualEndLineIndex = actualStartLineIndex + selLen - 1;
-
-	const startColumn = findColumn(
-		fileLines[actualStartLineIndex],
-		selectionLines[0],
-	); // For endColumn, find the column of the last line of selection within the corresponding file line
-	const endColumnOfLastSelectionLineStart = findColumn(
-		fileLines[actualEndLineIndex],
-		selectionLines[selectionLines.length - 1],
-	);
-
-	if (startColumn === -1 || endColumnOfLastSelectionLineStart === -1) {
-		// This case should ideally not be hit if matchesAt returned true,
-		// but as a safeguard if selectionLines[i] was empty or logic changes.
-		Logger.warn(
-			"Could not determine column for selection, though lines matched.",
-		);
-		return null;
-	} // Calculate the end column based on the start of the last selection line and its length
+	if (matches.length === 0) return null; // Selection not found
 
-	const endColumn =
-		endColumnOfLastSelectionLineStart +
-		selectionLines[selectionLines.length - 1].length -
-		1;
+	// Pick the match nearest the hint (preferring the one below on ties), else the first
+	let best = matches[0];
+	if (hintLine != null && hintLine > 0) {
+		const distance = (m: SelectionMatch) =>
+			m.startLine >= hintLine
+				? m.startLine - hintLine
+				: hintLine - m.startLine + 0.5;
+		best = matches.reduce((a, b) => (distance(b) < distance(a) ? b : a));
+	}
 
-	return {
-		startLine: matchStartLine, // 1-based
-		startColumn, // 1-based
-		endLine: actualEndLineIndex + 1, // 1-based
-		endColumn, // 1-based
-	};
+	return { ...best, matches };
 }
 
 /**
  * Utility to run shell commands and get stdout, stderr, and exit code.
+ * Commands run in `options.cwd`, or else the current directory.
  */
 export async function runCommand(
 	cmd: string[],
-	options?: { ignoreExitCode?: boolean },
+	options?: { ignoreExitCode?: boolean; cwd?: string },
 ): Promise<CommandOutput> {
 	// Deno.Command is the modern API for running subprocesses
 	const command = new Deno.Command(cmd[0], {
 		args: cmd.slice(1),
+		cwd: options?.cwd,
 		stdout: "piped",
 		stderr: "piped",
 	});
+	const startedAt = performance.now();
 	const { code, stdout, stderr } = await command.output();
 	const stdoutStr = new TextDecoder().decode(stdout).trim();
 	const stderrStr = new TextDecoder().decode(stderr).trim();
+	Logger.debug(
+		`$ ${cmd.join(" ")} (exit ${code}, ${Math.round(performance.now() - startedAt)} ms)`,
+	);
 
 	if (!options?.ignoreExitCode && code !== 0) {
-		let errorMessage = `Command "${cmd.join(" ")}" failed with code ${code}.`;
-		if (stderrStr) {
-			errorMessage += `\nStderr: ${stderrStr}`;
-		}
-		Logger.error(errorMessage);
-		Deno.exit(code); // Exit if command fails and not ignored
+		throw new CommandFailedError(cmd, code, stderrStr); // Unless the caller handles failures itself
 	}
 	return {
 		stdout: stdoutStr,
@@ -264,10 +551,11 @@ export function getOpenCommandName(os = Deno.build.os): string {
  * Handles common formats like git@, ssh://, and http://.
  */
 export function normalizeRemoteUrl(remoteUrlStr: string): string {
-	let tempUrl = remoteUrlStr.replace(/(\.git\/?)$/, ""); // Convert git@host:path/repo to https://host/path/repo
+	let tempUrl = remoteUrlStr.replace(/(\.git\/?)$/, ""); // Convert user@host:path/repo (scp-like, e.g. git@) to https://host/path/repo
 
-	if (tempUrl.startsWith("git@")) {
-		tempUrl = `https://${tempUrl.substring(4).replace(":", "/")}`;
+	const scpMatch = tempUrl.match(/^([^@/:]+)@([^:/]+):(?!\/\/)(.+)$/);
+	if (scpMatch) {
+		tempUrl = `https://${scpMatch[2]}/${scpMatch[3]}`;
 	} else if (tempUrl.startsWith("ssh://")) {
 		// Attempt to parse ssh:// URLs, including those with ports or different user info
 		try {
@@ -305,7 +593,9 @@ export function normalizeRemoteUrl(remoteUrlStr: string): string {
 			throw new Error(
 				`URL scheme is '${finalParsedUrl.protocol}' not 'https:'.`,
 			);
-		} // Remove trailing slash from pathname if it's not the root itself
+		} // Drop credentials (e.g. tokens in https remotes) so they never reach the browser
+		finalParsedUrl.username = "";
+		finalParsedUrl.password = ""; // Remove trailing slash from pathname if it's not the root itself
 		if (
 			finalParsedUrl.pathname !== "/" &&
 			finalParsedUrl.pathname.endsWith("/")
@@ -322,32 +612,40 @@ export function normalizeRemoteUrl(remoteUrlStr: string): string {
 }
 
 /**
- * Gets the default branch name from the 'origin' remote.
- * Tries 'origin/HEAD' first, then 'symbolic-ref', then falls back to 'main'.
+ * Gets the default branch name from a remote ('origin' unless specified).
+ * Tries '<remote>/HEAD' first, then 'symbolic-ref', then falls back to 'main'.
+ * @param cwd Working tree to run git in; defaults to the current directory.
  */
-export async function getDefaultBranchName(): Promise<string> {
+export async function getDefaultBranchName(
+	remoteName = "origin",
+	cwd?: string,
+): Promise<string> {
 	try {
-		// Attempt 1: Get default branch from 'origin/HEAD' directly
+		// Attempt 1: Get default branch from '<remote>/HEAD' directly
 		const { stdout, success } = await runCommand(
-			["git", "rev-parse", "--abbrev-ref", "origin/HEAD"],
-			{ ignoreExitCode: true }, // Ignore exit code as this might fail
-		); // If successful and not 'origin/HEAD' (which means it's not set or ambiguous)
-		if (success && stdout && stdout !== "origin/HEAD") {
-			return stdout.replace(/^origin\//, ""); // Remove 'origin/' prefix
+			["git", "rev-parse", "--abbrev-ref", `${remoteName}/HEAD`],
+			{ ignoreExitCode: true, cwd }, // Ignore exit code as this might fail
+		); // If successful and not '<remote>/HEAD' (which means it's not set or ambiguous)
+		if (success && stdout && stdout !== `${remoteName}/HEAD`) {
+			return stdout.slice(remoteName.length + 1); // Remove '<remote>/' prefix
 		} else {
-			// Attempt 2: Try 'git symbolic-ref refs/remotes/origin/HEAD'
+			// Attempt 2: Try 'git symbolic-ref refs/remotes/<remote>/HEAD'
 			Logger.warn(
-				"Could not determine default branch directly from origin/HEAD. Trying 'symbolic-ref'.",
+				`Could not determine default branch directly from ${remoteName}/HEAD. Trying 'symbolic-ref'.`,
 			);
 			const symbolicRefResult = await runCommand(
-				["git", "symbolic-ref", "refs/remotes/origin/HEAD"],
+				["git", "symbolic-ref", `refs/remotes/${remoteName}/HEAD`],
 				{
 					ignoreExitCode: true,
+					cwd,
 				},
 			);
-			if (symbolicRefResult.success && symbolicRefResult.stdout) {
-				const refParts = symbolicRefResult.stdout.split("/"); // e.g., refs/remotes/origin/main
-				const branchName = refParts[refParts.length - 1];
+			const refPrefix = `refs/remotes/${remoteName}/`; // e.g., refs/remotes/origin/main
+			if (
+				symbolicRefResult.success &&
+				symbolicRefResult.stdout.startsWith(refPrefix)
+			) {
+				const branchName = symbolicRefResult.stdout.slice(refPrefix.length);
 				if (branchName) return branchName;
 			} // Fallback: If both attempts fail, log a warning and default to 'main'.
 			Logger.warn(
@@ -364,332 +662,456 @@ export async function getDefaultBranchName(): Promise<string> {
 	}
 }
 
-function displayHelp() {
-	Logger.log(`Deno Script: Open Repository File in Web UI
-Version: 1.1.0
-Author: AI
-
-Opens a file from a Git repository in the provider's web UI (GitHub, GitLab, Bitbucket).
-If no arguments are provided, opens the repository root.
+/**
+ * Gets the remote and remote branch name a local branch tracks
+ * (`branch.<name>.remote` / `branch.<name>.merge`, i.e. `@{upstream}`).
+ * @param cwd Working tree to run git in; defaults to the current directory.
+ * @returns The upstream, or null if none is configured or it tracks a local branch.
+ */
+export async function getUpstreamBranch(
+	branchName: string,
+	cwd?: string,
+): Promise<{ remote: string; branch: string } | null> {
+	const [{ stdout: remote }, { stdout: merge }] = await Promise.all([
+		runCommand(["git", "config", "--get", `branch.${branchName}.remote`], {
+			ignoreExitCode: true,
+			cwd,
+		}),
+		runCommand(["git", "config", "--get", `branch.${branchName}.merge`], {
+			ignoreExitCode: true,
+			cwd,
+		}),
+	]);
+	if (!remote || remote === "." || !merge) return null; // '.' means a local upstream
+	return { remote, branch: merge.replace(/^refs\/heads\//, "") };
+}
 
-Usage:
-  open_in_web.ts [OPTIONS] [FILE_PATH]
+/**
+ * Picks a remote when nothing more specific applies: 'origin', else the first listed remote.
+ * @param cwd Working tree to run git in; defaults to the current directory.
+ * @returns The remote name, or null if there are no remotes.
+ */
+export async function getFallbackRemoteName(
+	cwd?: string,
+): Promise<string | null> {
+	const remotesResult = await runCommand(["git", "remote"], {
+		ignoreExitCode: true,
+		cwd,
+	});
+	if (!remotesResult.success || !remotesResult.stdout) return null;
+	const remotes = remotesResult.stdout.split("\n").map((r) => r.trim());
+	if (remotes.includes("origin")) return "origin";
+	Logger.warn("Remote 'origin' not found. Using first available remote...");
+	Logger.info(`Using remote: '${remotes[0]}'.`);
+	return remotes[0] || null;
+}
 
-Options:
-  -h, --help                 Show this help message.
-  -b, --branch <branch_name> Specify a branch name to use.
-  -d, --default-branch       Use the repository's default branch (from origin). Overrides -b.
-  -L, --line-start <number>  Specify the starting line number (1-indexed).
-  -E, --line-end <number>    Specify the ending line number (1-indexed).
-  -s, --selection <text>     Specify a text selection within FILE_PATH to determine line range.
-                             If FILE_PATH is provided, this will attempt to find the selection.
-                             The --line-start option can be used as a hint for the search.
-                             This overrides --line-start/--line-end if selection is found.
+/**
+ * Checks whether a branch exists on a remote, based on its remote-tracking ref.
+ * Reflects the last fetch rather than querying the remote.
+ */
+export async function remoteBranchExists(
+	remoteName: string,
+	branchName: string,
+	cwd?: string,
+): Promise<boolean> {
+	const { success } = await runCommand(
+		[
+			"git",
+			"rev-parse",
+			"--verify",
+			"--quiet",
+			`refs/remotes/${remoteName}/${branchName}`,
+		],
+		{ ignoreExitCode: true, cwd },
+	);
+	return success;
+}
 
-Arguments:
-  FILE_PATH     Optional path to the file within the repository (e.g., src/main.ts)
+// --- Provider Registry ---
+export type ProviderType = "github" | "gitlab" | "bitbucket" | "gitea" | "azure";
 
-Examples:
-  # Open repository root of the current branch
-  open_in_web.ts
+/**
+ * Builds web UI URLs for a Git hosting provider.
+ * `repoUrl` is always the repository's web root without a trailing slash.
+ */
+export interface GitProvider {
+	readonly type: ProviderType;
+	/** Optionally rewrites a normalized remote URL into the repository's web root. */
+	repoUrl?(normalized: URL): string;
+	blobUrl(repoUrl: string, ref: string, filePath: string): string;
+	treeUrl(repoUrl: string, ref: string): string;
+	/** Suffix appended to a blob URL to highlight a line range. */
+	lineFragment(lineStart: number, lineEnd?: number): string;
+	commitUrl(repoUrl: string, sha: string): string;
+	/** Blame view of a file; lineFragment can be appended. */
+	blameUrl(repoUrl: string, ref: string, filePath: string): string;
+	/** Commit log of a file, or of the whole ref if no file is given. */
+	historyUrl(repoUrl: string, ref: string, filePath?: string): string;
+	/** Diff of head against base. */
+	compareUrl(repoUrl: string, base: string, head: string): string;
+	/** Page to open (or create) the pull/merge request of branch into base. */
+	pullRequestUrl(repoUrl: string, branch: string, base: string): string;
+	/**
+	 * Parses a blob (or blame) URL, the inverse of blobUrl + lineFragment.
+	 * @param subPath The URL path after the repository web root, e.g. "/blob/main/src/a.ts".
+	 * @returns The location, or null if the URL is not a file view.
+	 */
+	parseBlobUrl(subPath: string, url: URL): WebUrlLocation | null;
+}
 
-  # Open repository root of the default branch
-  open_in_web.ts --default-branch
+/**
+ * A file location parsed from a web URL. Where the URL does not delimit the ref
+ * (e.g. /blob/feature/foo/src/a.ts), `refAndPath` holds the segments and the
+ * split is resolved against local refs.
+ */
+export type WebUrlLocation = { lineStart?: number; lineEnd?: number } & (
+	{ ref: string; filePath: string } | { refAndPath: string[] }
+);
 
-  # Open repository root of a specific branch 'develop'
-  open_in_web.ts --branch develop
+/**
+ * Parses a line fragment in any of the providers' formats:
+ * #L10, #L10-L20, #L10-20, #L10C3-L20C5 or #lines-10:20.
+ */
+export function parseLineFragment(hash: string): {
+	lineStart?: number;
+	lineEnd?: number;
+} {
+	const match = hash.match(
+		/^#(?:L|lines-)(\d+)(?:C\d+)?(?:[-:]L?(\d+)(?:C\d+)?)?$/,
+	);
+	if (!match) return {};
+	const lineStart = parseInt(match[1], 10);
+	const lineEnd = match[2] ? parseInt(match[2], 10) : undefined;
+	return { lineStart, lineEnd: lineEnd !== lineStart ? lineEnd : undefined };
+}
 
-  # Open a file on the default branch
-  open_in_web.ts -d README.md
+/** Builds a parseBlobUrl for providers that put the ref and path in the URL path. */
+function pathBlobParser(
+	pattern: RegExp,
+): (subPath: string, url: URL) => WebUrlLocation | null {
+	return (subPath, url) => {
+		const match = subPath.match(pattern);
+		if (!match) return null;
+		return {
+			refAndPath: match[1].split("/").map((s) => decodeURIComponent(s)),
+			...parseLineFragment(url.hash),
+		};
+	};
+}
 
-  # Open a file on a specific branch 'feature/foo' with line numbers
-  open_in_web.ts -b feature/foo src/main.ts --line-start 42 --line-end 50
+/** Which page of the repository to open. */
+export type ViewMode =
+	"blob" | "blame" | "history" | "commit" | "compare" | "pr";
 
-  # Open a file with a specific text selection (searches from the start of the file)
-  open_in_web.ts src/utils.ts -s "class MyClass"
+/** Encodes each segment of a repository-relative file path. */
+function encodeFilePath(filePath: string): string {
+	return filePath
+		.split("/")
+		.map((segment) => encodeURIComponent(segment))
+		.join("/");
+}
 
-  # Open a file with a specific text selection, hinting to search around line 10
-  open_in_web.ts src/utils.ts --line-start 10 -s "const myVar"
-`);
-	Deno.exit(0); // Exit after displaying help
+/** True if the ref looks like a full commit SHA rather than a branch or tag name. */
+export function isCommitSha(ref: string): boolean {
+	return /^[0-9a-f]{40}$/i.test(ref);
 }
 
-/**
- * Main application logic.
- */
-export async function main() {
-	const rawArgs = [...Deno.args]; // Get command line arguments
-	let branchFromArg: string | undefined;
-	let useDefaultBranch = false;
-	let selectionTextFromArg: string | undefined;
-	let parsedLineStart: number | undefined;
-	let parsedLineEnd: number | undefined;
-	const positionalArgs: string[] = []; // For FILE_PATH
-	// Early check for help flag
+/** Gitea/Forgejo prefix a ref with its kind: branch/<name> or commit/<sha>. */
+function giteaRef(ref: string): string {
+	return `${isCommitSha(ref) ? "commit" : "branch"}/${ref}`;
+}
 
-	if (rawArgs.includes("-h") || rawArgs.includes("--help")) {
-		displayHelp();
-	} // Parse named arguments
+/** Azure DevOps prefixes a version with its kind: GB<branch> or GC<sha>. */
+function azureVersion(ref: string): string {
+	return `${isCommitSha(ref) ? "GC" : "GB"}${encodeURIComponent(ref)}`;
+}
 
-	for (let i = 0; i < rawArgs.length; i++) {
-		const arg = rawArgs[i];
-		if (arg === "--branch" || arg === "-b") {
-			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
-				branchFromArg = rawArgs[i + 1];
-				i++;
-			} else {
-				Logger.error(`Branch name missing after ${arg} flag.`);
-				displayHelp();
-			}
-		} else if (arg === "--default-branch" || arg === "-d") {
-			useDefaultBranch = true;
-		} else if (arg === "--selection" || arg === "-s") {
-			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
-				selectionTextFromArg = rawArgs[i + 1];
-				if (selectionTextFromArg.trim().length === 0) {
-					Logger.error(`Selection text missing after ${arg} flag.`);
-					selectionTextFromArg = undefined;
-				}
-				i++;
-			} else {
-				Logger.error(`Selection text missing after ${arg} flag.`);
-				displayHelp();
-			}
-		} else if (arg === "--line-start" || arg === "-L") {
-			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
-				parsedLineStart = parseInt(rawArgs[i + 1], 10);
-				if (isNaN(parsedLineStart) || parsedLineStart <= 0) {
-					Logger.error(`Value for ${arg} must be a positive number.`);
-					Deno.exit(1);
-				}
-				i++;
-			} else {
-				Logger.error(`Line number missing after ${arg} flag.`);
-				displayHelp();
+export const PROVIDERS: { [key in ProviderType]: GitProvider } = {
+	github: {
+		type: "github",
+		blobUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/blob/${ref}/${encodeFilePath(filePath)}`,
+		treeUrl: (repoUrl, ref) => `${repoUrl}/tree/${ref}`,
+		lineFragment: (lineStart, lineEnd) =>
+			lineEnd != null ? `#L${lineStart}-L${lineEnd}` : `#L${lineStart}`,
+		commitUrl: (repoUrl, sha) => `${repoUrl}/commit/${sha}`,
+		blameUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/blame/${ref}/${encodeFilePath(filePath)}`,
+		historyUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/commits/${ref}${filePath ? `/${encodeFilePath(filePath)}` : ""}`,
+		compareUrl: (repoUrl, base, head) => `${repoUrl}/compare/${base}...${head}`,
+		// Shows the existing pull request for the branch, or the form to create one
+		pullRequestUrl: (repoUrl, branch, base) =>
+			`${repoUrl}/compare/${base}...${branch}?expand=1`,
+		parseBlobUrl: pathBlobParser(/^\/(?:blob|blame)\/(.+)$/),
+	},
+	gitlab: {
+		type: "gitlab",
+		blobUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/-/blob/${ref}/${encodeFilePath(filePath)}`,
+		treeUrl: (repoUrl, ref) => `${repoUrl}/-/tree/${ref}`,
+		lineFragment: (lineStart, lineEnd) =>
+			lineEnd != null ? `#L${lineStart}-${lineEnd}` : `#L${lineStart}`,
+		commitUrl: (repoUrl, sha) => `${repoUrl}/-/commit/${sha}`,
+		blameUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/-/blame/${ref}/${encodeFilePath(filePath)}`,
+		historyUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/-/commits/${ref}${filePath ? `/${encodeFilePath(filePath)}` : ""}`,
+		compareUrl: (repoUrl, base, head) =>
+			`${repoUrl}/-/compare/${base}...${head}`,
+		// GitLab links to an already open merge request from the new MR form
+		pullRequestUrl: (repoUrl, branch, base) =>
+			`${repoUrl}/-/merge_requests/new?merge_request[source_branch]=${encodeURIComponent(branch)}&merge_request[target_branch]=${encodeURIComponent(base)}`,
+		parseBlobUrl: pathBlobParser(/^\/-\/(?:blob|blame)\/(.+)$/),
+	},
+	bitbucket: {
+		type: "bitbucket",
+		blobUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/src/${ref}/${encodeFilePath(filePath)}`,
+		treeUrl: (repoUrl, ref) => `${repoUrl}/src/${ref}`, // Bitbucket uses /src/ for branch root
+		lineFragment: (lineStart, lineEnd) =>
+			lineEnd != null ? `#lines-${lineStart}:${lineEnd}` : `#lines-${lineStart}`,
+		commitUrl: (repoUrl, sha) => `${repoUrl}/commits/${sha}`,
+		blameUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/annotate/${ref}/${encodeFilePath(filePath)}`,
+		historyUrl: (repoUrl, ref, filePath) =>
+			filePath
+				? `${repoUrl}/history-node/${ref}/${encodeFilePath(filePath)}`
+				: `${repoUrl}/commits/branch/${ref}`,
+		// Bitbucket puts the head first, separated from the base by a carriage return
+		compareUrl: (repoUrl, base, head) =>
+			`${repoUrl}/branches/compare/${encodeURIComponent(head)}%0D${encodeURIComponent(base)}#diff`,
+		pullRequestUrl: (repoUrl, branch, base) =>
+			`${repoUrl}/pull-requests/new?source=${encodeURIComponent(branch)}&dest=${encodeURIComponent(base)}`,
+		parseBlobUrl: pathBlobParser(/^\/(?:src|annotate)\/(.+)$/),
+	},
+	gitea: {
+		// Also covers Forgejo (e.g. Codeberg), which shares Gitea's URL scheme.
+		type: "gitea",
+		blobUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/src/${giteaRef(ref)}/${encodeFilePath(filePath)}`,
+		treeUrl: (repoUrl, ref) => `${repoUrl}/src/${giteaRef(ref)}`,
+		lineFragment: (lineStart, lineEnd) =>
+			lineEnd != null ? `#L${lineStart}-L${lineEnd}` : `#L${lineStart}`,
+		commitUrl: (repoUrl, sha) => `${repoUrl}/commit/${sha}`,
+		blameUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/blame/${giteaRef(ref)}/${encodeFilePath(filePath)}`,
+		historyUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}/commits/${giteaRef(ref)}${filePath ? `/${encodeFilePath(filePath)}` : ""}`,
+		compareUrl: (repoUrl, base, head) => `${repoUrl}/compare/${base}...${head}`,
+		// The compare page links to an existing pull request or offers to create one
+		pullRequestUrl: (repoUrl, branch, base) =>
+			`${repoUrl}/compare/${base}...${branch}`,
+		parseBlobUrl: pathBlobParser(
+			/^\/(?:src|blame)\/(?:branch|tag|commit)\/(.+)$/,
+		),
+	},
+	azure: {
+		type: "azure",
+		repoUrl: (normalized) => {
+			// SSH remotes look like git@ssh.dev.azure.com:v3/org/project/repo
+			const sshMatch = normalized.pathname.match(/^\/v3\/([^/]+)\/([^/]+)\/([^/]+)$/);
+			if (
+				sshMatch &&
+				/^(ssh\.dev\.azure\.com|vs-ssh\.visualstudio\.com)$/.test(
+					normalized.hostname,
+				)
+			) {
+				const [, org, project, repo] = sshMatch;
+				return `https://dev.azure.com/${org}/${project}/_git/${repo}`;
 			}
-		} else if (arg === "--line-end" || arg === "-E") {
-			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
-				parsedLineEnd = parseInt(rawArgs[i + 1], 10);
-				if (isNaN(parsedLineEnd) || parsedLineEnd <= 0) {
-					Logger.error(`Value for ${arg} must be a positive number.`);
-					Deno.exit(1);
-				}
-				i++;
-			} else {
-				Logger.error(`Line number missing after ${arg} flag.`);
-				displayHelp();
+			return normalized.toString();
+		},
+		blobUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}?path=/${encodeFilePath(filePath)}&version=${azureVersion(ref)}&_a=contents`,
+		treeUrl: (repoUrl, ref) => `${repoUrl}?version=${azureVersion(ref)}`,
+		// Azure DevOps selects lines via query parameters; the end is exclusive at column 1.
+		lineFragment: (lineStart, lineEnd) =>
+			`&line=${lineStart}&lineEnd=${(lineEnd ?? lineStart) + 1}&lineStartColumn=1&lineEndColumn=1&lineStyle=plain`,
+		commitUrl: (repoUrl, sha) => `${repoUrl}/commit/${sha}`,
+		blameUrl: (repoUrl, ref, filePath) =>
+			`${repoUrl}?path=/${encodeFilePath(filePath)}&version=${azureVersion(ref)}&_a=blame`,
+		historyUrl: (repoUrl, ref, filePath) =>
+			filePath
+				? `${repoUrl}?path=/${encodeFilePath(filePath)}&version=${azureVersion(ref)}&_a=history`
+				: `${repoUrl}/commits?itemVersion=${azureVersion(ref)}`,
+		compareUrl: (repoUrl, base, head) =>
+			`${repoUrl}/branchCompare?baseVersion=${azureVersion(base)}&targetVersion=${azureVersion(head)}&_a=files`,
+		pullRequestUrl: (repoUrl, branch, base) =>
+			`${repoUrl}/pullrequestcreate?sourceRef=${encodeURIComponent(branch)}&targetRef=${encodeURIComponent(base)}`,
+		parseBlobUrl: (subPath, url) => {
+			const path = url.searchParams.get("path");
+			const version = url.searchParams.get("version");
+			if (subPath !== "" || !path || !version) return null;
+			const line = url.searchParams.get("line");
+			const lineEndParam = url.searchParams.get("lineEnd");
+			const lineStart = line ? parseInt(line, 10) : undefined;
+			let lineEnd = lineEndParam ? parseInt(lineEndParam, 10) : undefined;
+			if (
+				lineStart != null &&
+				lineEnd != null &&
+				lineEnd > lineStart &&
+				url.searchParams.get("lineEndColumn") === "1"
+			) {
+				lineEnd--; // Selection ends at column 1 of the line after the range
 			}
-		} else {
-			positionalArgs.push(arg);
-		}
-	} // Assign positional argument
+			return {
+				ref: version.slice(2), // Strip GB/GC/GT
+				filePath: path.replace(/^\//, ""),
+				lineStart,
+				lineEnd: lineEnd !== lineStart ? lineEnd : undefined,
+			};
+		},
+	},
+};
 
-	const filePath: string | undefined = positionalArgs[0];
-	if (positionalArgs.length > 1) {
-		Logger.error("Too many file path arguments provided. Only one is allowed.");
-		displayHelp();
-	} // Validate line number arguments
+/** Accepted spellings for provider types in configuration. */
+const PROVIDER_ALIASES: { [alias: string]: ProviderType } = {
+	github: "github",
+	ghe: "github",
+	gitlab: "gitlab",
+	bitbucket: "bitbucket",
+	gitea: "gitea",
+	forgejo: "gitea",
+	codeberg: "gitea",
+	azure: "azure",
+	"azure-devops": "azure",
+	azuredevops: "azure",
+};
 
-	if (parsedLineEnd != null && parsedLineStart == null) {
-		Logger.error(
-			"--line-end can only be used if --line-start is also provided.",
-		);
-		Deno.exit(1);
+/** Hosts recognised without any configuration. */
+const BUILTIN_HOSTS: { [hostname: string]: ProviderType } = {
+	"github.com": "github",
+	"gitlab.com": "gitlab",
+	"bitbucket.org": "bitbucket",
+	"gitea.com": "gitea",
+	"codeberg.org": "gitea",
+	"dev.azure.com": "azure",
+	"ssh.dev.azure.com": "azure",
+	"vs-ssh.visualstudio.com": "azure",
+};
+
+/**
+ * Parses a provider type name from configuration.
+ * @returns The provider type, or null if the name is not recognised.
+ */
+export function parseProviderType(name: string): ProviderType | null {
+	return PROVIDER_ALIASES[name.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Path of the optional JSON config file mapping hostnames to provider types:
+ * `{ "providers": { "git.example.com": "gitlab" } }`
+ */
+export function getConfigFilePath(): string | null {
+	const configHome =
+		Deno.env.get("XDG_CONFIG_HOME") ??
+		(Deno.env.get("HOME") ? `${Deno.env.get("HOME")}/.config` : undefined);
+	return configHome ? `${configHome}/open_in_web/config.json` : null;
+}
+
+async function getProviderFromConfigFile(
+	hostname: string,
+): Promise<string | null> {
+	const configPath = getConfigFilePath();
+	if (!configPath) return null;
+	let text: string;
+	try {
+		text = await Deno.readTextFile(configPath);
+	} catch {
+		return null; // No config file
 	}
-	if (
-		parsedLineStart != null &&
-		parsedLineEnd != null &&
-		parsedLineEnd < parsedLineStart
-	) {
-		Logger.error(
-			`--line-end (${parsedLineEnd}) must be >= --line-start (${parsedLineStart}).`,
+	try {
+		const config = JSON.parse(text);
+		const mapped = config?.providers?.[hostname];
+		return typeof mapped === "string" ? mapped : null;
+	} catch (e) {
+		Logger.warn(
+			`Ignoring invalid config file '${configPath}': ${e instanceof Error ? e.message : String(e)}`,
 		);
-		Deno.exit(1);
-	} // These will be the final line numbers used for URL construction
+		return null;
+	}
+}
 
-	let finalLineStart: number | undefined = parsedLineStart;
-	let finalLineEnd: number | undefined = parsedLineEnd; // If selection argument is provided, try to find it and override line numbers
+/**
+ * Resolves the provider for a hostname.
+ * Order: `git config openinweb.<host>.provider`, the config file, built-in hosts,
+ * then a guess from the hostname (e.g. github.example.com → github).
+ * @param cwd Working tree whose git config is read; defaults to the current directory.
+ * @returns The provider, or null if the host is unknown.
+ */
+export async function resolveProvider(
+	hostname: string,
+	cwd?: string,
+): Promise<GitProvider | null> {
+	const configured: { source: string; value: string | null }[] = [
+		{
+			source: `git config openinweb.${hostname}.provider`,
+			value:
+				(
+					await runCommand(
+						["git", "config", "--get", `openinweb.${hostname}.provider`],
+						{ ignoreExitCode: true, cwd },
+					)
+				).stdout || null,
+		},
+		{
+			source: getConfigFilePath() ?? "config file",
+			value: await getProviderFromConfigFile(hostname),
+		},
+	];
+	for (const { source, value } of configured) {
+		if (!value) continue;
+		const type = parseProviderType(value);
+		if (type) return PROVIDERS[type];
+		Logger.warn(`Unknown provider type '${value}' in ${source}. Ignoring.`);
+	}
 
-	if (selectionTextFromArg != null) {
-		if (!filePath) {
-			Logger.error("--selection flag requires a FILE_PATH to be specified.");
-			Deno.exit(1);
-		}
-		Logger.info(`Attempting to find selection in file: ${filePath}`);
-		try {
-			// Use parsedLineStart (from --line-start option) as a hint if available
-			const selectionRange = await getSelectionPosition(
-				filePath,
-				selectionTextFromArg,
-				parsedLineStart,
-			);
-
-			if (selectionRange) {
-				Logger.success(
-					`Selection found: lines ${selectionRange.startLine}-${selectionRange.endLine}, cols ${selectionRange.startColumn}-${selectionRange.endColumn}`,
-				);
-				finalLineStart = selectionRange.startLine;
-				finalLineEnd = selectionRange.endLine;
-			} else {
-				Logger.error(`Selection text not found in file: ${filePath}`);
-				Deno.exit(1); // Exit if selection is specified but not found
-			}
-		} catch (e) {
-			Logger.error(
-				`Error reading or processing file for selection: ${filePath}`,
-			);
-			Logger.error(e instanceof Error ? e.message : String(e));
-			Deno.exit(1);
-		}
-	} else {
-		// If no selection, validate that line numbers (if provided) require filePath
-		if (finalLineStart != null && filePath === undefined) {
-			Logger.error(
-				"--line-start can only be used if a <file_path> is also provided.",
-			);
-			Deno.exit(1);
-		}
-	} // Determine Git remote URL
+	const builtin =
+		BUILTIN_HOSTS[hostname] ??
+		(hostname.endsWith(".visualstudio.com") ? "azure" : undefined);
+	if (builtin) return PROVIDERS[builtin];
 
-	let remoteUrlRaw: string;
-	try {
-		const originResult = await runCommand(
-			["git", "remote", "get-url", "origin"],
-			{ ignoreExitCode: true },
-		);
-		if (originResult.success && originResult.stdout) {
-			remoteUrlRaw = originResult.stdout;
-		} else {
-			Logger.warn(
-				"Remote 'origin' not found. Trying first available remote...",
+	for (const type of ["github", "gitlab", "bitbucket", "gitea", "forgejo"]) {
+		if (hostname.includes(type)) {
+			const guessed = parseProviderType(type)!;
+			Logger.info(
+				`Assuming '${guessed}' for host '${hostname}'. Set 'git config openinweb.${hostname}.provider' to override.`,
 			);
-			const remotesResult = await runCommand(["git", "remote"], {
-				ignoreExitCode: true,
-			});
-			if (!remotesResult.success || !remotesResult.stdout) {
-				Logger.error("Not a Git repository or no remotes found.");
-				Deno.exit(1);
-			}
-			const firstRemoteName = remotesResult.stdout.split("\n")[0]?.trim();
-			if (!firstRemoteName) {
-				Logger.error("No git remotes configured.");
-				Deno.exit(1);
-			}
-			Logger.info(`Using remote: '${firstRemoteName}'.`);
-			const firstRemoteUrlResult = await runCommand([
-				"git",
-				"remote",
-				"get-url",
-				firstRemoteName,
-			]);
-			remoteUrlRaw = firstRemoteUrlResult.stdout;
+			return PROVIDERS[guessed];
 		}
-	} catch (error) {
-		Logger.error(
-			"Failed to get remote URL:",
-			error instanceof Error ? error.message : String(error),
-		);
-		Deno.exit(1);
-	} // Normalize the remote URL to a base HTTPS URL
-
-	const baseRepoUrlStr = normalizeRemoteUrl(remoteUrlRaw); // Determine the branch or commit to use
-
-	let branchOrCommit: string;
-	if (useDefaultBranch) {
-		branchOrCommit = await getDefaultBranchName();
-		Logger.info(`Using default remote branch: '${branchOrCommit}'`);
-	} else if (branchFromArg) {
-		branchOrCommit = branchFromArg;
-		Logger.info(`Using specified branch: '${branchOrCommit}'`);
-	} else {
-		// Get current branch or commit SHA if in detached HEAD
-		let { stdout: detectedBranch, success: branchSuccess } = await runCommand([
-			"git",
-			"rev-parse",
-			"--abbrev-ref",
-			"HEAD",
-		]);
-		if (!branchSuccess) {
-			Logger.error("Failed to detect current branch or commit.");
-			Deno.exit(1);
-		}
-		if (detectedBranch === "HEAD") {
-			// Detached HEAD state
-			Logger.info("Detached HEAD state. Using full commit SHA.");
-			({ stdout: detectedBranch } = await runCommand([
-				"git",
-				"rev-parse",
-				"HEAD",
-			])); // Get full SHA
-		}
-		branchOrCommit = detectedBranch;
-		Logger.info(`Using current branch/commit: '${branchOrCommit}'`);
-	} // Construct the final URL
-
-	const baseRepoUrlParsed = new URL(baseRepoUrlStr);
-	const providerHostname = baseRepoUrlParsed.hostname;
-	let finalUrlToOpen = baseRepoUrlStr; // Default to repo root
+	}
+	return null;
+}
+// --- End Provider Registry ---
+
+/** Structured description of a resolved URL, emitted by --json. */
+export interface ResolvedLocation {
+	url: string;
+	view: ViewMode;
+	remote: { name: string; url: string };
+	provider: ProviderType | null;
+	ref: string;
+	path: string | null;
+	lines: { start: number; end: number | null } | null;
+	/** Present when --selection was used; confidence is that of the chosen match. */
+	selection?: { confidence: number; matches: SelectionMatch[] };
+}
 
-	if (filePath) {
-		// Encode each segment of the file path
-		const filePathEncoded = filePath
-			.split("/")
-			.map((segment) => encodeURIComponent(segment))
-			.join("/");
-		let pathSegment = "";
-		let fragment = ""; // For line numbers (e.g., #L10-L20)
-		// Construct line number fragment based on provider, using finalLineStart and finalLineEnd
-
-		if (finalLineStart != null) {
-			const lineStartStr = finalLineStart.toString();
-			if (
-				providerHostname.includes("github.com") ||
-				providerHostname.includes("gitlab.com")
-			) {
-				fragment =
-					finalLineEnd != null
-						? `#L${lineStartStr}-L${finalLineEnd}`
-						: `#L${lineStartStr}`;
-			} else if (providerHostname.includes("bitbucket.org")) {
-				fragment =
-					finalLineEnd != null
-						? `#lines-${lineStartStr}:${finalLineEnd}`
-						: `#lines-${lineStartStr}`;
-			}
-		} // Construct path segment based on provider
-
-		if (providerHostname.includes("github.com")) {
-			pathSegment = `/blob/${branchOrCommit}/${filePathEncoded}`;
-		} else if (providerHostname.includes("gitlab.com")) {
-			pathSegment = `/-/blob/${branchOrCommit}/${filePathEncoded}`;
-		} else if (providerHostname.includes("bitbucket.org")) {
-			pathSegment = `/src/${branchOrCommit}/${filePathEncoded}`;
-		} else {
-			Logger.error(
-				`Unsupported provider at host '${providerHostname}'. Cannot construct file URL.`,
-			);
-			Deno.exit(1);
-		}
-		finalUrlToOpen = `${baseRepoUrlStr}${pathSegment}${fragment}`;
-	} else if (useDefaultBranch || branchFromArg) {
-		// If a specific branch is requested (default or via -b) but no file, open the tree for that branch
-		let branchRootPath = `/tree/${branchOrCommit}`; // GitHub default
-		if (providerHostname.includes("gitlab.com")) {
-			branchRootPath = `/-/tree/${branchOrCommit}`;
-		} else if (providerHostname.includes("bitbucket.org")) {
-			branchRootPath = `/src/${branchOrCommit}`; // Bitbucket uses /src/ for branch root
-		}
-		finalUrlToOpen = `${baseRepoUrlStr}${branchRootPath}`;
-	} // If no file and no specific branch request, finalUrlToOpen remains baseRepoUrlStr (repo root of current branch).
-	Logger.debug(`Opening: ${finalUrlToOpen}`);
+/**
+ * Opens a URL in the default browser via the OS open command.
+ * Falls back to 'cmd /c start' on Windows and reports failures without exiting.
+ */
+export async function openInBrowser(url: string): Promise<void> {
 	const openCmdName = getOpenCommandName();
 
 	if (openCmdName) {
 		// Adjust arguments for 'start' command on Windows
 		const argsForOpen =
 			Deno.build.os === "windows" && openCmdName === "start"
-				? ["", finalUrlToOpen] // "start" needs an empty title argument for URLs
-				: [finalUrlToOpen];
+				? ["", url] // "start" needs an empty title argument for URLs
+				: [url];
 
 		const openCmd = new Deno.Command(openCmdName, {
 			args: argsForOpen,
@@ -710,7 +1132,7 @@ export async function main() {
 				argsForOpen.length === 2
 			) {
 				Logger.info('Retrying with \'cmd /c start "" "URL"\' for Windows...');
-				const escapedUrl = finalUrlToOpen
+				const escapedUrl = url
 					.replace(/&/g, "^&")
 					.replace(/%/g, "%%"); // Escape special cmd characters
 				const cmdStart = new Deno.Command("cmd", {
@@ -724,34 +1146,2152 @@ export async function main() {
 					Logger.error(
 						`'cmd /c start' also failed: ${new TextDecoder().decode(cmdStderrBytes).trim() || `(code: ${cmdCode})`}`,
 					);
-					Logger.log("💡 Please open the URL manually.");
+					Logger.hint("Please open the URL manually.");
 				} else {
 					Logger.success("URL should be opening via cmd /c start.");
 				}
 			} else {
-				Logger.log("💡 Please open the URL manually.");
+				Logger.hint("Please open the URL manually.");
 			}
 		} else {
 			Logger.success("URL should be opening.");
 		}
 	} else {
 		// This case is handled by getOpenCommandName logging an error already.
-		Logger.log("💡 Please open the URL manually.");
+		Logger.hint("Please open the URL manually.");
 	}
 }
 
-// Script entry point
-if (import.meta.main) {
-	main().catch((err) => {
-		// Catch unhandled errors from main()
-		Logger.error(
-			"Unhandled error in main execution:",
-			err instanceof Error ? err.message : String(err),
+/** Clipboard commands tried in order; the first one that runs successfully wins. */
+const CLIPBOARD_COMMANDS: string[][] = [
+	["wl-copy"],
+	["xclip", "-selection", "clipboard"],
+	["xsel", "--clipboard", "--input"],
+	["pbcopy"],
+	["clip"], // Windows
+];
+
+/**
+ * Copies text to the system clipboard using whichever of wl-copy, xclip, xsel
+ * or pbcopy is available.
+ * @returns The name of the command used, or null if none worked.
+ */
+export async function copyToClipboard(text: string): Promise<string | null> {
+	for (const [name, ...args] of CLIPBOARD_COMMANDS) {
+		if (name === "wl-copy" && !Deno.env.get("WAYLAND_DISPLAY")) continue;
+		try {
+			const child = new Deno.Command(name, {
+				args,
+				stdin: "piped",
+				stdout: "null",
+				stderr: "null",
+			}).spawn();
+			const writer = child.stdin.getWriter();
+			await writer.write(new TextEncoder().encode(text));
+			await writer.close();
+			const { success } = await child.status;
+			if (success) return name;
+		} catch (e) {
+			if (!(e instanceof Deno.errors.NotFound)) throw e; // Not installed; try the next one
+		}
+	}
+	return null;
+}
+
+/**
+ * Resolves a ref to its full commit SHA.
+ * @param ref Branch, tag or commit to resolve.
+ * @param remoteName When set, the remote-tracking ref (e.g. origin/main) is tried before the local one.
+ * @param cwd Working tree to run git in; defaults to the current directory.
+ * @returns The full SHA, or null if the ref cannot be resolved.
+ */
+export async function resolveCommitSha(
+	ref: string,
+	remoteName?: string,
+	cwd?: string,
+): Promise<string | null> {
+	const candidates = remoteName ? [`${remoteName}/${ref}`, ref] : [ref];
+	for (const candidate of candidates) {
+		const { stdout, success } = await runCommand(
+			["git", "rev-parse", "--verify", "--quiet", `${candidate}^{commit}`],
+			{ ignoreExitCode: true, cwd },
+		);
+		if (success && stdout) return stdout;
+	}
+	return null;
+}
+
+/**
+ * Checks whether a commit is reachable from any remote-tracking branch of the given remote.
+ * Based on the last fetch, so a stale clone may report false negatives.
+ */
+export async function isCommitOnRemote(
+	sha: string,
+	remoteName: string,
+	cwd?: string,
+): Promise<boolean> {
+	const { stdout, success } = await runCommand(
+		["git", "branch", "-r", "--contains", sha, "--format=%(refname:short)"],
+		{ ignoreExitCode: true, cwd },
+	);
+	if (!success) return false;
+	return stdout
+		.split("\n")
+		.some((branch) => branch.trim().startsWith(`${remoteName}/`));
+}
+
+/**
+ * Checks whether a file has staged or unstaged changes relative to HEAD.
+ * @param filePath Path relative to cwd, or else the current directory.
+ */
+export async function hasUncommittedChanges(
+	filePath: string,
+	cwd?: string,
+): Promise<boolean> {
+	const { stdout } = await runCommand(
+		["git", "status", "--porcelain", "--", filePath],
+		{ ignoreExitCode: true, cwd },
+	);
+	return stdout.length > 0;
+}
+
+// --- Symbol Lookup ---
+type SymbolLanguage = "ts" | "python" | "go" | "rust" | "shell";
+
+/** 1-based, inclusive line range of a declaration and its body. */
+export interface SymbolRange {
+	startLine: number;
+	endLine: number;
+}
+
+const LANGUAGE_BY_EXTENSION: { [ext: string]: SymbolLanguage } = {
+	ts: "ts",
+	tsx: "ts",
+	mts: "ts",
+	cts: "ts",
+	js: "ts",
+	jsx: "ts",
+	mjs: "ts",
+	cjs: "ts",
+	py: "python",
+	pyi: "python",
+	go: "go",
+	rs: "rust",
+	sh: "shell",
+	bash: "shell",
+	zsh: "shell",
+	ksh: "shell",
+};
+
+/**
+ * Detects the language from the file extension or, for extensionless scripts,
+ * the shebang or a vim modeline in the first lines.
+ */
+function detectSymbolLanguage(
+	filePath: string,
+	headLines: string[],
+): SymbolLanguage | null {
+	const ext = filePath.match(/\.([^./]+)$/)?.[1]?.toLowerCase();
+	if (ext && LANGUAGE_BY_EXTENSION[ext]) return LANGUAGE_BY_EXTENSION[ext];
+	for (const line of headLines) {
+		const modeline = line.match(/\bvim?:.*\b(?:syntax|ft|filetype)=(\w+)/);
+		if (modeline) return LANGUAGE_BY_EXTENSION[modeline[1]] ?? null;
+		if (!line.startsWith("#!")) continue;
+		if (/\b(deno|node|bun|tsx|ts-node)\b/.test(line)) return "ts";
+		if (/\bpython[\d.]*\b/.test(line)) return "python";
+		if (/\b(sh|bash|zsh|ksh|dash)\b/.test(line)) return "shell";
+	}
+	return null;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Declaration patterns for a name, most specific first. */
+function declarationPatterns(lang: SymbolLanguage, name: string): RegExp[] {
+	const n = escapeRegExp(name);
+	switch (lang) {
+		case "ts":
+			return [
+				new RegExp(
+					`^\\s*(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:abstract\\s+)?(?:async\\s+)?(?:function\\*?|class|interface|type|enum|namespace|module)\\s+${n}\\b`,
+				),
+				new RegExp(
+					`^\\s*(?:export\\s+)?(?:declare\\s+)?(?:const|let|var)\\s+${n}\\b`,
+				),
+				// Methods (class members, object literals); a trailing ';' means a call, not a declaration
+				new RegExp(
+					`^\\s*(?:(?:public|private|protected|static|readonly|async|override|abstract|declare|get|set)\\s+)*\\*?${n}\\s*(?:<[^>]*>)?\\s*\\((?!.*;\\s*$)`,
+				),
+				new RegExp(
+					`^\\s*(?:(?:public|private|protected|static|readonly|override|declare)\\s+)*${n}\\s*[?!]?\\s*[:=](?!=)`,
+				),
+			];
+		case "python":
+			return [
+				new RegExp(`^\\s*(?:async\\s+)?(?:def|class)\\s+${n}\\b`),
+				new RegExp(`^\\s*${n}\\s*(?::[^=]+)?=(?!=)`),
+			];
+		case "go":
+			return [
+				new RegExp(`^func\\s+${n}\\b`),
+				new RegExp(`^\\s*type\\s+${n}\\b`),
+				new RegExp(`^\\s*(?:var|const)\\s+${n}\\b`),
+				new RegExp(`^\\s*${n}\\b`), // Struct fields and interface methods
+			];
+		case "rust":
+			return [
+				new RegExp(
+					`^\\s*(?:pub(?:\\([^)]*\\))?\\s+)?(?:default\\s+)?(?:const\\s+)?(?:async\\s+)?(?:unsafe\\s+)?(?:extern\\s+"[^"]*"\\s+)?fn\\s+${n}\\b`,
+				),
+				new RegExp(
+					`^\\s*(?:pub(?:\\([^)]*\\))?\\s+)?(?:struct|enum|trait|union|type|mod|const|static)\\s+${n}\\b`,
+				),
+				new RegExp(`^\\s*macro_rules!\\s*${n}\\b`),
+			];
+		case "shell":
+			return [
+				new RegExp(`^\\s*(?:function\\s+)?${n}\\s*\\(\\s*\\)`),
+				new RegExp(`^\\s*function\\s+${n}\\b`),
+			];
+	}
+}
+
+/** Patterns for the blocks that hold members of a type declared elsewhere (Go receivers, Rust impls). */
+function memberContainerPatterns(
+	lang: SymbolLanguage,
+	container: string,
+	member: string,
+): RegExp[] {
+	const c = escapeRegExp(container);
+	const m = escapeRegExp(member);
+	if (lang === "go") {
+		return [
+			new RegExp(
+				`^func\\s*\\([^)]*\\b\\*?${c}(?:\\[[^\\]]*\\])?\\)\\s*${m}\\b`,
+			),
+		];
+	}
+	if (lang === "rust") {
+		return [
+			new RegExp(
+				`^\\s*(?:unsafe\\s+)?impl\\b(?:<[^>]*>)?\\s+(?:[\\w:<>, ]+\\s+for\\s+)?${c}\\b`,
+			),
+		];
+	}
+	return [];
+}
+
+/**
+ * Finds the last line of the declaration starting at declIdx (0-based), following
+ * braces (skipping strings and comments) or, for Python, indentation.
+ */
+function findBlockEnd(
+	lines: string[],
+	declIdx: number,
+	lang: SymbolLanguage,
+): number {
+	if (lang === "python") {
+		const indent = (line: string) => line.search(/\S/);
+		const declIndent = indent(lines[declIdx]);
+		let depth = 0;
+		let headerEnd = declIdx;
+		// The header may span lines (long signatures); it ends where brackets balance
+		for (let i = declIdx; i < lines.length; i++) {
+			const code = lines[i].replace(/#.*$/, "");
+			depth += (code.match(/[([{]/g) ?? []).length;
+			depth -= (code.match(/[)\]}]/g) ?? []).length;
+			headerEnd = i;
+			if (depth <= 0) break;
+		}
+		if (!/:\s*(#.*)?$/.test(lines[headerEnd])) return headerEnd; // Not a block (e.g. an assignment)
+		let last = headerEnd;
+		for (let i = headerEnd + 1; i < lines.length; i++) {
+			if (lines[i].trim() === "") continue;
+			if (indent(lines[i]) <= declIndent) break;
+			last = i;
+		}
+		return last;
+	}
+
+	let braceDepth = 0;
+	let parenDepth = 0;
+	let seenBrace = false;
+	let closedOnLine = false; // Braces balanced on this line; a later '{' (e.g. `: { a: T } = {`) reopens
+	let quote: string | null = null; // Inside a string delimited by this character
+	let inBlockComment = false;
+	for (let i = declIdx; i < lines.length; i++) {
+		const line = lines[i];
+		closedOnLine = false;
+		for (let c = 0; c < line.length; c++) {
+			const ch = line[c];
+			if (inBlockComment) {
+				if (ch === "*" && line[c + 1] === "/") {
+					inBlockComment = false;
+					c++;
+				}
+				continue;
+			}
+			if (quote) {
+				if (ch === "\\" && quote !== "'") c++;
+				else if (ch === "\\" && lang !== "shell") c++;
+				else if (ch === quote) quote = null;
+				continue;
+			}
+			if (lang === "shell") {
+				if (ch === "#" && (c === 0 || /\s/.test(line[c - 1]))) break;
+			} else if (ch === "/" && line[c + 1] === "/" && line[c - 1] !== "\\") {
+				break; // Line comment (but not the end of an escaped regex slash like /^\//)
+			} else if (ch === "/" && line[c + 1] === "*") {
+				inBlockComment = true;
+				c++;
+				continue;
+			}
+			if (ch === '"' || (ch === "`" && lang !== "shell")) {
+				quote = ch;
+			} else if (ch === "'") {
+				// Rust lifetimes ('a) are not char literals
+				if (lang !== "rust" || /^'(\\.|[^\\'])'/.test(line.slice(c))) {
+					quote = ch;
+				}
+			} else if (ch === "(" || ch === "[") {
+				parenDepth++;
+			} else if (ch === ")" || ch === "]") {
+				parenDepth--;
+			} else if (ch === "{" && parenDepth <= 0) {
+				braceDepth++;
+				seenBrace = true;
+			} else if (ch === "}" && parenDepth <= 0) {
+				braceDepth--;
+				if (seenBrace && braceDepth === 0) closedOnLine = true;
+			}
+		}
+		if (closedOnLine && braceDepth === 0) return i;
+		if (quote && quote !== "`") quote = null; // Unterminated quotes don't span lines
+		if (!seenBrace && parenDepth <= 0 && !quote && !inBlockComment) {
+			const trimmed = line.replace(/\/\/.*$/, "").trimEnd();
+			if (trimmed.endsWith(";")) return i; // e.g. `type X = string;`
+			// Without semicolons, a TypeScript statement ends on a line that doesn't continue
+			if (
+				lang === "ts" &&
+				!/(=>|[=,(\[{+\-*/&|?:.<])$/.test(trimmed) &&
+				!/^\s*(?:@|\/\/|\*|\/\*)/.test(line)
+			) {
+				return i;
+			}
+		}
+	}
+	return lines.length - 1;
+}
+
+/** Finds a declaration of `name` within [from, to] (0-based, inclusive). */
+function findDeclaration(
+	lines: string[],
+	patterns: RegExp[],
+	from: number,
+	to: number,
+): number | null {
+	for (const pattern of patterns) {
+		for (let i = from; i <= to && i < lines.length; i++) {
+			if (pattern.test(lines[i])) return i;
+		}
+	}
+	return null;
+}
+
+/** Asks universal-ctags (if installed) for a symbol's range, for languages without a built-in parser. */
+async function findSymbolWithCtags(
+	filePath: string,
+	parts: string[],
+): Promise<SymbolRange | null> {
+	let output: CommandOutput;
+	try {
+		output = await runCommand(
+			["ctags", "--output-format=json", "--fields=+neZ", "-o", "-", filePath],
+			{ ignoreExitCode: true },
+		);
+	} catch {
+		return null; // ctags is not installed
+	}
+	if (!output.success) return null;
+	const name = parts[parts.length - 1];
+	const scope = parts.slice(0, -1).join(".");
+	for (const line of output.stdout.split("\n")) {
+		let tag: {
+			_type?: string;
+			name?: string;
+			line?: number;
+			end?: number;
+			scope?: string;
+		};
+		try {
+			tag = JSON.parse(line);
+		} catch {
+			continue;
+		}
+		if (tag._type !== "tag" || tag.name !== name || !tag.line) continue;
+		if (scope && !(tag.scope ?? "").replace(/::/g, ".").endsWith(scope)) {
+			continue;
+		}
+		return { startLine: tag.line, endLine: tag.end ?? tag.line };
+	}
+	return null;
+}
+
+/**
+ * Locates a declaration and its full body by name, e.g. `normalizeRemoteUrl` or
+ * `JiraClient.createTicket` (`Type::method` also works for Rust). Supports
+ * TypeScript/JavaScript, Python, Go, Rust and shell; other languages use ctags.
+ * @returns The 1-based line range, or null if the symbol is not found.
+ */
+export async function findSymbol(
+	filePath: string,
+	symbol: string,
+): Promise<SymbolRange | null> {
+	const lines = (await Deno.readTextFile(filePath))
+		.replace(/\r\n/g, "\n")
+		.split("\n");
+	const parts = symbol.split(/\.|::/).filter(Boolean);
+	const lang = detectSymbolLanguage(filePath, lines.slice(0, 2));
+	if (!lang || parts.length === 0) return findSymbolWithCtags(filePath, parts);
+
+	let from = 0;
+	let to = lines.length - 1;
+	let declIdx: number | null = null;
+	for (let p = 0; p < parts.length; p++) {
+		declIdx = null;
+		if (p > 0) {
+			// Go methods and Rust impl blocks live outside the type's own declaration
+			const containerPatterns = memberContainerPatterns(
+				lang,
+				parts[p - 1],
+				parts[p],
+			);
+			if (lang === "go") {
+				declIdx = findDeclaration(
+					lines,
+					containerPatterns,
+					0,
+					lines.length - 1,
+				);
+			} else if (lang === "rust") {
+				for (let i = 0; i < lines.length && declIdx === null; i++) {
+					if (!containerPatterns[0].test(lines[i])) continue;
+					const implEnd = findBlockEnd(lines, i, lang);
+					declIdx = findDeclaration(
+						lines,
+						declarationPatterns(lang, parts[p]),
+						i + 1,
+						implEnd,
+					);
+					i = implEnd;
+				}
+			}
+		}
+		declIdx ??= findDeclaration(
+			lines,
+			declarationPatterns(lang, parts[p]),
+			from,
+			to,
+		);
+		if (declIdx === null) return findSymbolWithCtags(filePath, parts);
+		from = declIdx + 1;
+		to = findBlockEnd(lines, declIdx, lang);
+	}
+
+	// Include decorators/attributes directly above the declaration
+	let startIdx = declIdx!;
+	while (startIdx > 0 && /^\s*(@|#\[)/.test(lines[startIdx - 1])) startIdx--;
+	return { startLine: startIdx + 1, endLine: to + 1 };
+}
+// --- End Symbol Lookup ---
+
+// --- Line Drift Correction ---
+/** A hunk from `git diff -U0`; "old" is the target ref, "new" the working tree. */
+export interface DiffHunk {
+	oldStart: number;
+	oldCount: number;
+	newStart: number;
+	newCount: number;
+}
+
+/** Parses the hunk headers (@@ -a,b +c,d @@) of a unified diff. */
+export function parseDiffHunks(diff: string): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+	for (const match of diff.matchAll(
+		/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/gm,
+	)) {
+		hunks.push({
+			oldStart: parseInt(match[1], 10),
+			oldCount: match[2] != null ? parseInt(match[2], 10) : 1,
+			newStart: parseInt(match[3], 10),
+			newCount: match[4] != null ? parseInt(match[4], 10) : 1,
+		});
+	}
+	return hunks;
+}
+
+/** A working-tree line mapped to the target ref; `exact` is false if the line was changed locally. */
+export interface MappedLine {
+	line: number;
+	exact: boolean;
+}
+
+/**
+ * Maps a working-tree line number to the target ref using diff hunks.
+ * A line inside a changed or added hunk has no exact counterpart; it maps to the
+ * nearest edge of the hunk's old range (its start, or its end when `bias` is "end").
+ */
+export function mapLineThroughHunks(
+	line: number,
+	hunks: DiffHunk[],
+	bias: "start" | "end" = "start",
+): MappedLine {
+	let offset = 0;
+	for (const { oldStart, oldCount, newStart, newCount } of hunks) {
+		// With a count of 0, the start is the line *before* the change
+		if (newCount > 0 ? line < newStart : line <= newStart) break;
+		if (newCount > 0 && line < newStart + newCount) {
+			const edge =
+				oldCount === 0
+					? oldStart + (bias === "start" ? 1 : 0)
+					: bias === "start"
+						? oldStart
+						: oldStart + oldCount - 1;
+			return { line: Math.max(edge, 1), exact: false };
+		}
+		const oldNext = oldCount === 0 ? oldStart + 1 : oldStart + oldCount;
+		const newNext = newCount === 0 ? newStart + 1 : newStart + newCount;
+		offset = oldNext - newNext;
+	}
+	return { line: line + offset, exact: true };
+}
+
+/**
+ * Maps a working-tree line range of a file to the corresponding lines at a commit.
+ * @param filePath Path relative to cwd, or else the current directory.
+ * @returns The mapped range, or null if the file does not exist at the commit.
+ */
+export async function mapWorkingTreeLines(
+	filePath: string,
+	sha: string,
+	lineStart: number,
+	lineEnd?: number,
+	cwd?: string,
+): Promise<{ start: MappedLine; end?: MappedLine } | null> {
+	const { success: existsAtRef } = await runCommand(
+		["git", "cat-file", "-e", `${sha}:./${filePath}`],
+		{ ignoreExitCode: true, cwd },
+	);
+	if (!existsAtRef) return null;
+
+	const { stdout: diff } = await runCommand(
+		["git", "diff", "--no-ext-diff", "-U0", sha, "--", filePath],
+		{ cwd },
+	);
+	const hunks = parseDiffHunks(diff);
+	const start = mapLineThroughHunks(lineStart, hunks, "start");
+	if (lineEnd == null) return { start };
+	const end = mapLineThroughHunks(lineEnd, hunks, "end");
+	return { start, end: { ...end, line: Math.max(end.line, start.line) } };
+}
+
+/**
+ * Maps a working-tree line range to the linked ref, logging adjustments and
+ * keeping the lines as given when the ref or file is not available.
+ * @param filePath Path relative to cwd, the working tree to run git in.
+ */
+async function mapLinesToRef(
+	filePath: string,
+	ref: string,
+	remoteName: string,
+	lineStart: number,
+	lineEnd: number | undefined,
+	cwd: string | undefined,
+): Promise<{ lineStart: number; lineEnd?: number }> {
+	const targetSha = isCommitSha(ref)
+		? ref
+		: await resolveCommitSha(ref, remoteName, cwd);
+	const mapped = targetSha
+		? await mapWorkingTreeLines(filePath, targetSha, lineStart, lineEnd, cwd)
+		: undefined;
+	if (mapped === undefined) {
+		Logger.warn(
+			`'${ref}' is not available locally; line numbers are not adjusted for local changes.`,
+		);
+		return { lineStart, lineEnd };
+	}
+	if (mapped === null) {
+		Logger.warn(
+			`'${filePath}' does not exist at '${ref}'; the link will likely 404.`,
+		);
+		return { lineStart, lineEnd };
+	}
+	for (const [local, target] of [
+		[lineStart, mapped.start],
+		[lineEnd, mapped.end],
+	] as const) {
+		if (local != null && target && !target.exact) {
+			Logger.warn(
+				`Line ${local} was changed locally and does not exist at '${ref}'; using nearby line ${target.line}.`,
+			);
+		}
+	}
+	const localRange = `${lineStart}${lineEnd != null ? `-${lineEnd}` : ""}`;
+	const targetRange = `${mapped.start.line}${mapped.end != null ? `-${mapped.end.line}` : ""}`;
+	if (targetRange !== localRange) {
+		Logger.info(
+			`Mapped local line${lineEnd != null ? "s" : ""} ${localRange} to ${targetRange} at '${ref}'.`,
 		);
-		if (err instanceof Error && err.stack) {
-			// Optionally log stack trace for debugging (might be too verbose for users)
-			console.error("Stack trace:", err.stack);
+	}
+	return { lineStart: mapped.start.line, lineEnd: mapped.end?.line };
+}
+// --- End Line Drift Correction ---
+
+// --- Batch Input ---
+/** A file location read in batch mode. */
+export interface BatchEntry {
+	filePath: string;
+	lineStart?: number;
+	lineEnd?: number;
+}
+
+/**
+ * Parses one batch input line: `path[:start[-end]]`, `git grep -n` output
+ * (`path:line:text`) or compiler diagnostics (`path:line:col: message`,
+ * `path(line,col): message`).
+ * @returns The entry, or null for blank lines and `#` comments.
+ */
+export function parseBatchEntry(line: string): BatchEntry | null {
+	const trimmed = line.trim();
+	if (!trimmed || trimmed.startsWith("#")) return null;
+
+	// Only a path (with an optional drive letter) may come before the parenthesis, so that
+	// `path:line:text` lines with parentheses in the text are not read as this form
+	const msbuildStyle = trimmed.match(
+		/^((?:[A-Za-z]:)?[^:()]+)\((\d+)(?:,\d+)*\)(?::|$)/,
+	);
+	if (msbuildStyle) {
+		return {
+			filePath: msbuildStyle[1],
+			lineStart: parseInt(msbuildStyle[2], 10),
+		};
+	}
+
+	const match = trimmed.match(/^([^:]+?)(?::(\d+)(?:-(\d+))?)?(?::.*)?$/);
+	if (!match) return null;
+	const [, filePath, start, end] = match;
+	const lineStart = start ? parseInt(start, 10) : undefined;
+	const lineEnd = end ? parseInt(end, 10) : undefined;
+	if (!lineStart) return { filePath };
+	return {
+		filePath,
+		lineStart,
+		lineEnd: lineEnd && lineEnd > lineStart ? lineEnd : undefined,
+	};
+}
+
+/**
+ * Collects batch entries from arguments, a file, or stdin (`-` as the file or an argument),
+ * dropping duplicates. Stdin is read when neither arguments nor a file are given.
+ */
+export async function readBatchEntries(
+	args: string[],
+	fromFile?: string,
+): Promise<BatchEntry[]> {
+	const lines = args.filter((arg) => arg !== "-");
+	if (
+		fromFile === "-" ||
+		args.includes("-") ||
+		(fromFile == null && args.length === 0)
+	) {
+		if (Deno.stdin.isTerminal()) {
+			throw new InvalidOptionsError(
+				"No batch entries given. Pass them as arguments, with --from <file>, or on stdin.",
+			);
 		}
-		Deno.exit(1); // Exit with error code
+		lines.push(...(await new Response(Deno.stdin.readable).text()).split("\n"));
+	} else if (fromFile != null) {
+		lines.push(...(await Deno.readTextFile(fromFile)).split("\n"));
+	}
+
+	const seen = new Set<string>();
+	const entries: BatchEntry[] = [];
+	for (const line of lines) {
+		const entry = parseBatchEntry(line);
+		if (!entry) continue;
+		const key = `${entry.filePath}:${entry.lineStart ?? ""}-${entry.lineEnd ?? ""}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+		entries.push(entry);
+	}
+	return entries;
+}
+// --- End Batch Input ---
+
+// --- Reverse Resolution ---
+/** A web URL resolved to a file in the local checkout. */
+export interface LocalLocation {
+	remoteName: string;
+	ref: string;
+	/** The ref's commit, or null if it is not available locally. */
+	sha: string | null;
+	/** Path relative to the repository root. */
+	filePath: string;
+	lineStart?: number;
+	lineEnd?: number;
+}
+
+/**
+ * Resolves a pasted blob URL (GitHub, GitLab, Bitbucket, Gitea, Azure DevOps) to a
+ * file in the local checkout. The URL must belong to one of the local remotes.
+ * @throws NoRemoteError if the URL does not match a local remote, InvalidOptionsError if it is not a file URL.
+ */
+export async function resolveWebUrl(urlStr: string): Promise<LocalLocation> {
+	const url = new URL(urlStr);
+	const { stdout: remotesOutput } = await runCommand(["git", "remote"], {
+		ignoreExitCode: true,
 	});
+
+	for (const remoteName of remotesOutput.split("\n").filter(Boolean)) {
+		const { stdout: remoteUrlRaw } = await runCommand(
+			["git", "remote", "get-url", remoteName],
+			{ ignoreExitCode: true },
+		);
+		let normalized: URL;
+		try {
+			normalized = new URL(normalizeRemoteUrl(remoteUrlRaw));
+		} catch {
+			continue; // e.g. a local path remote
+		}
+		if (normalized.hostname.toLowerCase() !== url.hostname.toLowerCase()) {
+			continue;
+		}
+		const provider = await resolveProvider(normalized.hostname);
+		if (!provider) continue;
+		const repoPath = new URL(
+			provider.repoUrl ? provider.repoUrl(normalized) : normalized.toString(),
+		).pathname;
+
+		// Hosts treat owner/repo case-insensitively, so compare the same way
+		const urlPath = url.pathname.replace(/\/$/, "");
+		if (
+			urlPath.toLowerCase() !== repoPath.toLowerCase() &&
+			!urlPath.toLowerCase().startsWith(`${repoPath.toLowerCase()}/`)
+		) {
+			continue;
+		}
+
+		const location = provider.parseBlobUrl(urlPath.slice(repoPath.length), url);
+		if (!location) {
+			throw new InvalidOptionsError(
+				`'${urlStr}' is not a file URL that ${provider.type} can be resolved from.`,
+			);
+		}
+
+		let ref: string;
+		let filePath: string;
+		if ("ref" in location) {
+			({ ref, filePath } = location);
+		} else {
+			// Branch names may contain slashes; take the shortest prefix that is a known ref
+			const { refAndPath } = location;
+			let split = 1;
+			for (let i = 1; i < refAndPath.length; i++) {
+				if (
+					await resolveCommitSha(refAndPath.slice(0, i).join("/"), remoteName)
+				) {
+					split = i;
+					break;
+				}
+			}
+			ref = refAndPath.slice(0, split).join("/");
+			filePath = refAndPath.slice(split).join("/");
+		}
+
+		return {
+			remoteName,
+			ref,
+			sha: await resolveCommitSha(ref, remoteName),
+			filePath,
+			lineStart: location.lineStart,
+			lineEnd: location.lineEnd,
+		};
+	}
+
+	throw new NoRemoteError(
+		`'${url.origin}${url.pathname}' does not belong to any local remote.`,
+	);
+}
+
+/**
+ * Opens a file at a line in $VISUAL/$EDITOR, using the line syntax the editor understands.
+ */
+export async function openInEditor(
+	filePath: string,
+	line?: number,
+): Promise<boolean> {
+	const editor = Deno.env.get("VISUAL") || Deno.env.get("EDITOR");
+	if (!editor) {
+		Logger.error("Neither $VISUAL nor $EDITOR is set.");
+		return false;
+	}
+	const [cmd, ...editorArgs] = editor.split(/\s+/);
+	const editorName = cmd.split(/[\\/]/).pop() ?? cmd;
+	let args: string[];
+	if (line == null) {
+		args = [filePath];
+	} else if (/^(code|code-insiders|codium|cursor)(\.exe)?$/.test(editorName)) {
+		args = ["-g", `${filePath}:${line}`];
+	} else if (/^(subl|zed|hx|helix)(\.exe)?$/.test(editorName)) {
+		args = [`${filePath}:${line}`];
+	} else {
+		args = [`+${line}`, filePath]; // vi, vim, nvim, nano, emacs, micro, kak...
+	}
+	const { success } = await new Deno.Command(cmd, {
+		args: [...editorArgs, ...args],
+		stdin: "inherit",
+		stdout: "inherit",
+		stderr: "inherit",
+	}).spawn().status;
+	return success;
+}
+
+/**
+ * Reverse mode: resolves a web URL to a local file and prints `path:line`
+ * (or opens it in the editor / prints JSON).
+ * @returns The process exit code.
+ */
+async function runReverse(
+	urlStr: string,
+	options: { edit: boolean; outputJson: boolean },
+): Promise<number> {
+	const location = await resolveWebUrl(urlStr);
+	const { remoteName, ref, sha, filePath, lineStart, lineEnd } = location;
+	Logger.info(`Resolved to '${filePath}' at '${remoteName}/${ref}'.`);
+
+	// Paths from the URL are relative to the repository root; make them usable from the cwd
+	const { stdout: cdup } = await runCommand([
+		"git",
+		"rev-parse",
+		"--show-cdup",
+	]);
+	const localPath = `${cdup}${filePath}`;
+
+	try {
+		await Deno.stat(localPath);
+	} catch {
+		Logger.warn(`'${filePath}' does not exist in the local checkout.`);
+	}
+	if (!sha) {
+		Logger.warn(
+			`Ref '${ref}' is not available locally; run 'git fetch ${remoteName}' to check for divergence.`,
+		);
+	} else {
+		const { code } = await runCommand(
+			["git", "diff", "--quiet", sha, "--", localPath],
+			{ ignoreExitCode: true },
+		);
+		if (code !== 0) {
+			Logger.warn(
+				`Your local '${filePath}' differs from '${ref}' (${sha.slice(0, 12)}); line numbers may not match.`,
+			);
+		}
+	}
+
+	if (options.outputJson) {
+		console.log(
+			JSON.stringify(
+				{
+					remote: remoteName,
+					ref,
+					sha,
+					path: localPath,
+					lines:
+						lineStart != null
+							? { start: lineStart, end: lineEnd ?? null }
+							: null,
+				},
+				null,
+				2,
+			),
+		);
+	} else if (options.edit) {
+		if (!(await openInEditor(localPath, lineStart))) return 1;
+	} else {
+		console.log(lineStart != null ? `${localPath}:${lineStart}` : localPath);
+	}
+	return 0;
+}
+// --- End Reverse Resolution ---
+
+// --- Path Resolution ---
+/** A path located in the working tree (of the repository or a submodule) that contains it. */
+export interface RepoPath {
+	/** Absolute path of the working tree root. */
+	toplevel: string;
+	/** Path relative to toplevel, with forward slashes; empty for the root itself. */
+	path: string;
+	/** Set if the path is inside a submodule of the current repository. */
+	submodule?: {
+		/** Path of the submodule within its superproject. */
+		path: string;
+		/** The submodule commit recorded in the superproject's HEAD. */
+		pinnedCommit: string;
+	};
+}
+
+/** Resolves `.` and `..` segments and converts backslashes, without touching the file system. */
+function normalizePath(path: string): string {
+	const parts: string[] = [];
+	for (const part of path.replace(/\\/g, "/").split("/")) {
+		if (part === "..") {
+			parts.pop();
+		} else if (part && part !== ".") {
+			parts.push(part);
+		}
+	}
+	return `${path.startsWith("/") ? "/" : ""}${parts.join("/")}`;
+}
+
+/** True if path is dir itself or lies below it. Both must be normalized. */
+function isWithinPath(path: string, dir: string): boolean {
+	return path === dir || path.startsWith(`${dir.replace(/\/$/, "")}/`);
+}
+
+/**
+ * Returns the absolute, normalized form of a path that may not exist, with symlinks
+ * resolved on the part that does (git reports toplevels with symlinks resolved).
+ */
+async function canonicalPath(path: string): Promise<string> {
+	const absolute = normalizePath(
+		/^([A-Za-z]:)?[\\/]/.test(path) ? path : `${Deno.cwd()}/${path}`,
+	);
+	const parts = absolute.split("/");
+	for (let i = parts.length; i > 0; i--) {
+		try {
+			const real = normalizePath(
+				await Deno.realPath(parts.slice(0, i).join("/") || "/"),
+			);
+			return [real.replace(/\/$/, ""), ...parts.slice(i)].join("/") || "/";
+		} catch {
+			// Does not exist (yet); try its parent
+		}
+	}
+	return absolute;
+}
+
+/**
+ * Resolves a path as typed (relative to the current directory, or absolute) to the
+ * working tree that contains it. Paths in submodules resolve to the submodule, along
+ * with the commit its superproject pins.
+ * @throws NotAGitRepoError, or PathOutsideRepoError if the path is not in the current repository.
+ */
+export async function resolveRepoPath(filePath: string): Promise<RepoPath> {
+	const { stdout: repoToplevel, success } = await runCommand(
+		["git", "rev-parse", "--show-toplevel"],
+		{ ignoreExitCode: true },
+	);
+	if (!success) {
+		throw new NotAGitRepoError("Not a Git repository.");
+	}
+	const toplevel = await canonicalPath(repoToplevel);
+	const absolute = await canonicalPath(filePath);
+	if (!isWithinPath(absolute, toplevel)) {
+		throw new PathOutsideRepoError(
+			`'${filePath}' is outside the repository at '${toplevel}'.`,
+		);
+	}
+
+	// The nearest existing directory decides which working tree (e.g. a submodule) owns the path
+	let dir = absolute;
+	while (dir !== toplevel) {
+		try {
+			if ((await Deno.stat(dir)).isDirectory) break;
+		} catch {
+			// Does not exist; check its parent
+		}
+		dir = dir.slice(0, dir.lastIndexOf("/"));
+	}
+	const { stdout: ownToplevel, success: ownSuccess } = await runCommand(
+		["git", "-C", dir, "rev-parse", "--show-toplevel"],
+		{ ignoreExitCode: true },
+	);
+	const fileToplevel = ownSuccess ? await canonicalPath(ownToplevel) : toplevel;
+	const path = absolute.slice(fileToplevel.length + 1);
+	if (fileToplevel === toplevel) return { toplevel, path };
+
+	// A nested working tree: a submodule (pinned by the superproject) or a standalone repository
+	const { stdout: superproject } = await runCommand(
+		[
+			"git",
+			"-C",
+			fileToplevel,
+			"rev-parse",
+			"--show-superproject-working-tree",
+		],
+		{ ignoreExitCode: true },
+	);
+	if (!superproject) return { toplevel: fileToplevel, path };
+	const superToplevel = await canonicalPath(superproject);
+	const submodulePath = fileToplevel.slice(superToplevel.length + 1);
+	const { stdout: pinnedCommit, success: isPinned } = await runCommand(
+		[
+			"git",
+			"-C",
+			superToplevel,
+			"rev-parse",
+			"--verify",
+			"--quiet",
+			`HEAD:${submodulePath}`,
+		],
+		{ ignoreExitCode: true },
+	);
+	if (!isPinned) return { toplevel: fileToplevel, path }; // Submodule not committed yet
+	return {
+		toplevel: fileToplevel,
+		path,
+		submodule: { path: submodulePath, pinnedCommit },
+	};
+}
+// --- End Path Resolution ---
+
+// --- Web URL Builder ---
+/** Options for {@link buildWebUrl}; each one mirrors a command-line flag. */
+export interface WebUrlOptions {
+	/**
+	 * File to link, relative to the current directory or absolute. Files in submodules link to
+	 * the submodule's repository. Without one, the repository or ref is linked.
+	 */
+	filePath?: string;
+	/** Branch to link instead of the current one (-b). */
+	branch?: string;
+	/** Link the remote's default branch (-d). Takes precedence over branch. */
+	defaultBranch?: boolean;
+	/** Remote to use instead of the branch's upstream remote or 'origin' (-r). */
+	remote?: string;
+	/** Use the remote named 'upstream' (-u). */
+	upstream?: boolean;
+	lineStart?: number;
+	lineEnd?: number;
+	/** Text to find in the file; the match replaces lineStart/lineEnd, with lineStart as a hint. */
+	selection?: string;
+	matchMode?: SelectionMatchMode;
+	/** Minimum confidence (0-1) of the chosen selection match. */
+	minConfidence?: number;
+	/** Declaration to link by name, e.g. "Class.method". */
+	symbol?: string;
+	/** Defaults to "blob". */
+	view?: ViewMode;
+	/** Revision shown by the "commit" view. */
+	commit?: string;
+	/** Base the "compare" view diffs against. */
+	compareBase?: string;
+	/** Pin the URL to the commit SHA instead of the branch name. */
+	permalink?: boolean;
+	/** Create permalinks for unpushed commits and dirty files anyway. */
+	force?: boolean;
+	/** Map working-tree line numbers to the linked ref. Defaults to true. */
+	mapLines?: boolean;
+}
+
+/** The remote, provider and ref that URLs are built against. */
+interface RepoContext {
+	remoteName: string;
+	/** Web URL of the repository. */
+	repoUrl: string;
+	provider: GitProvider | null;
+	providerHostname: string;
+	/** Branch or commit SHA to link. */
+	ref: string;
+	/** Null in detached HEAD state. */
+	currentBranch: string | null;
+	/** True if the current branch is not on the remote and the default branch is linked instead. */
+	fellBackToDefaultBranch: boolean;
+}
+
+/** What a {@link RepoContext} is resolved for. */
+interface ContextTarget {
+	/** Working tree to run git in; defaults to the current directory. */
+	cwd?: string;
+	/** Checked for uncommitted changes when creating a permalink; relative to the working tree. */
+	filePath?: string;
+	/** Whether line numbers will be linked; decides if a dirty file blocks a permalink. */
+	hasLineRange: boolean;
+	/** Links the pinned commit, unless a branch is requested. */
+	submodule?: RepoPath["submodule"];
+}
+
+/**
+ * Refuses to create a permalink, unless --force downgrades the refusal to a warning.
+ * @throws PermalinkRefusedError without --force.
+ */
+function refusePermalink(message: string, options: WebUrlOptions): void {
+	if (!options.force) {
+		throw new PermalinkRefusedError(message, {
+			hint: "Use --force to create the permalink anyway.",
+		});
+	}
+	Logger.warn(message);
+}
+
+/**
+ * Checks a file linked by a permalink for uncommitted changes, which the permalink does not
+ * show. Refuses when its line numbers are not mapped to the commit, and warns otherwise.
+ * @param filePath Path relative to cwd, the working tree to run git in.
+ * @throws PermalinkRefusedError without --force.
+ */
+async function checkPermalinkFile(
+	filePath: string,
+	hasLineRange: boolean,
+	options: WebUrlOptions,
+	cwd: string | undefined,
+): Promise<void> {
+	const { mapLines = true } = options;
+	if (!(await hasUncommittedChanges(filePath, cwd))) return;
+	const message = `'${filePath}' has uncommitted changes; the permalink shows the committed version.`;
+	if (hasLineRange && !mapLines) {
+		refusePermalink(`${message} Line numbers may not match.`, options);
+	} else {
+		Logger.warn(message);
+	}
+}
+
+/**
+ * Resolves the remote (--remote, --upstream, the branch's upstream, then origin/first remote),
+ * the ref (-d, -b, a submodule's pinned commit, else the current branch) and, for permalinks,
+ * the commit to pin. Git commands run in `target.cwd`.
+ */
+async function resolveRepoContext(
+	options: WebUrlOptions,
+	target: ContextTarget,
+): Promise<RepoContext> {
+	const { cwd, filePath, hasLineRange, submodule } = target;
+
+	// Determine the current branch (null in detached HEAD state)
+	const { stdout: headRef, success: headSuccess } = await runCommand(
+		["git", "rev-parse", "--abbrev-ref", "HEAD"],
+		{ ignoreExitCode: true, cwd },
+	);
+	if (!headSuccess) {
+		throw new NotAGitRepoError("Not a Git repository or no commits yet.");
+	}
+	const currentBranch = headRef === "HEAD" ? null : headRef;
+	const upstream = currentBranch
+		? await getUpstreamBranch(currentBranch, cwd)
+		: null;
+
+	let remoteName: string;
+	if (options.remote) {
+		remoteName = options.remote;
+	} else if (options.upstream) {
+		remoteName = "upstream";
+	} else if (upstream) {
+		remoteName = upstream.remote;
+		Logger.info(
+			`Following upstream of '${currentBranch}': '${upstream.remote}/${upstream.branch}'.`,
+		);
+	} else {
+		const fallbackRemoteName = await getFallbackRemoteName(cwd);
+		if (!fallbackRemoteName) {
+			throw new NoRemoteError("Not a Git repository or no remotes found.");
+		}
+		remoteName = fallbackRemoteName;
+	}
+
+	const remoteUrlResult = await runCommand(
+		["git", "remote", "get-url", remoteName],
+		{ ignoreExitCode: true, cwd },
+	);
+	if (!remoteUrlResult.success || !remoteUrlResult.stdout) {
+		throw new NoRemoteError(`Remote '${remoteName}' not found.`, {
+			hint:
+				options.upstream && !options.remote
+					? "Add it with 'git remote add upstream <url>' or pick a remote with --remote <name>."
+					: undefined,
+		});
+	}
+	const baseRepoUrlStr = normalizeRemoteUrl(remoteUrlResult.stdout); // Normalize the remote URL to a base HTTPS URL
+
+	// Determine the branch or commit to use
+	let ref: string;
+	let fellBackToDefaultBranch = false;
+	if (options.defaultBranch) {
+		ref = await getDefaultBranchName(remoteName, cwd);
+		Logger.info(`Using default remote branch: '${ref}'`);
+	} else if (options.branch) {
+		ref = options.branch;
+		Logger.info(`Using specified branch: '${ref}'`);
+		if (!(await remoteBranchExists(remoteName, ref, cwd))) {
+			Logger.warn(
+				`Branch '${ref}' was not found on '${remoteName}' (as of the last fetch). The URL may 404.`,
+			);
+		}
+	} else if (submodule) {
+		ref = submodule.pinnedCommit;
+		Logger.info(
+			`Using commit pinned for submodule '${submodule.path}': '${ref}'`,
+		);
+		const { stdout: headSha } = await runCommand(["git", "rev-parse", "HEAD"], {
+			cwd,
+		});
+		if (headSha !== ref) {
+			Logger.warn(
+				`Submodule '${submodule.path}' is checked out at ${headSha.slice(0, 12)}, not at the pinned commit; the link shows the pinned commit.`,
+			);
+		}
+		if (!options.permalink && !(await isCommitOnRemote(ref, remoteName, cwd))) {
+			Logger.warn(
+				`Commit ${ref.slice(0, 12)} has not been pushed to '${remoteName}'; the URL may 404.`,
+			);
+		}
+	} else if (!currentBranch) {
+		// Detached HEAD state
+		Logger.info("Detached HEAD state. Using full commit SHA.");
+		({ stdout: ref } = await runCommand(["git", "rev-parse", "HEAD"], { cwd })); // Get full SHA
+		Logger.info(`Using current branch/commit: '${ref}'`);
+	} else {
+		// The upstream branch name can differ from the local one (e.g. local 'fix' tracking 'fork/bugfix-123')
+		const remoteBranch =
+			upstream?.remote === remoteName ? upstream.branch : currentBranch;
+		if (
+			options.permalink ||
+			(await remoteBranchExists(remoteName, remoteBranch, cwd))
+		) {
+			// --permalink pins HEAD's commit and checks that it was pushed itself
+			ref = remoteBranch;
+			Logger.info(`Using current branch/commit: '${ref}'`);
+		} else {
+			ref = await getDefaultBranchName(remoteName, cwd);
+			fellBackToDefaultBranch = true;
+			Logger.warn(
+				`Branch '${remoteBranch}' has not been pushed to '${remoteName}' (as of the last fetch). Falling back to default branch '${ref}'.`,
+			);
+			if (!options.remote && !options.upstream) {
+				Logger.hint(
+					`Push it with 'git push -u ${remoteName} ${currentBranch}' to link to your branch.`,
+				);
+			}
+		}
+	}
+
+	// Pin to an immutable commit SHA if requested
+	if (options.permalink) {
+		// The current branch is what the working copy (and its line numbers) reflect; for
+		// -b/-d prefer the remote-tracking ref, since that is what the link will show.
+		const usingCurrentBranch =
+			!options.defaultBranch && !options.branch && !submodule;
+		const sha = await resolveCommitSha(
+			usingCurrentBranch ? "HEAD" : ref,
+			usingCurrentBranch ? undefined : remoteName,
+			cwd,
+		);
+		if (!sha) {
+			throw new OpenInWebError(`Could not resolve '${ref}' to a commit.`);
+		}
+		if (!(await isCommitOnRemote(sha, remoteName, cwd))) {
+			refusePermalink(
+				`Commit ${sha.slice(0, 12)} has not been pushed to '${remoteName}'; the permalink would 404.`,
+				options,
+			);
+		}
+		if (filePath) {
+			await checkPermalinkFile(filePath, hasLineRange, options, cwd);
+		}
+		Logger.info(`Using permalink commit: '${sha}'`);
+		ref = sha;
+	}
+
+	const providerHostname = new URL(baseRepoUrlStr).hostname;
+	const provider = await resolveProvider(providerHostname, cwd);
+	return {
+		remoteName,
+		repoUrl: provider?.repoUrl
+			? provider.repoUrl(new URL(baseRepoUrlStr))
+			: baseRepoUrlStr,
+		provider,
+		providerHostname,
+		ref,
+		currentBranch,
+		fellBackToDefaultBranch,
+	};
+}
+
+/**
+ * Finds the line range of a symbol or selection in a file.
+ * @throws SymbolNotFoundError, SelectionNotFoundError, or FileReadError if the file cannot be read.
+ */
+async function resolveLineRange(
+	filePath: string,
+	options: WebUrlOptions,
+): Promise<{
+	lineStart?: number;
+	lineEnd?: number;
+	selection?: SelectionPosition;
+}> {
+	if (options.symbol != null) {
+		let symbolRange: SymbolRange | null;
+		try {
+			symbolRange = await findSymbol(filePath, options.symbol);
+		} catch (e) {
+			throw new FileReadError(
+				`Error reading file for symbol lookup: ${filePath}\n${e instanceof Error ? e.message : String(e)}`,
+				{ cause: e },
+			);
+		}
+		if (!symbolRange) {
+			throw new SymbolNotFoundError(
+				`Symbol '${options.symbol}' not found in file: ${filePath}`,
+			);
+		}
+		Logger.success(
+			`Symbol '${options.symbol}' found: lines ${symbolRange.startLine}-${symbolRange.endLine}`,
+		);
+		return {
+			lineStart: symbolRange.startLine,
+			lineEnd:
+				symbolRange.endLine > symbolRange.startLine
+					? symbolRange.endLine
+					: undefined,
+		};
+	}
+
+	if (options.selection != null) {
+		Logger.info(`Attempting to find selection in file: ${filePath}`);
+		let selectionRange: SelectionPosition | null;
+		try {
+			// Use lineStart (from --line-start option) as a hint if available
+			selectionRange = await getSelectionPosition(
+				filePath,
+				options.selection,
+				options.lineStart,
+				{ mode: options.matchMode },
+			);
+		} catch (e) {
+			throw new FileReadError(
+				`Error reading or processing file for selection: ${filePath}\n${e instanceof Error ? e.message : String(e)}`,
+				{ cause: e },
+			);
+		}
+		if (!selectionRange) {
+			throw new SelectionNotFoundError(
+				`Selection text not found in file: ${filePath}`,
+			);
+		}
+		const minConfidence = options.minConfidence ?? 0;
+		if (selectionRange.confidence < minConfidence) {
+			throw new SelectionNotFoundError(
+				`Best selection match (lines ${selectionRange.startLine}-${selectionRange.endLine}) has confidence ${selectionRange.confidence.toFixed(2)}, below the minimum of ${minConfidence}.`,
+			);
+		}
+		if (selectionRange.matches.length > 1) {
+			const candidates = selectionRange.matches
+				.map(
+					(m) =>
+						`lines ${m.startLine}-${m.endLine} (${m.confidence.toFixed(2)})`,
+				)
+				.join(", ");
+			Logger.info(
+				`Selection matches ${selectionRange.matches.length} locations: ${candidates}. Using the ${options.lineStart != null ? `one nearest line ${options.lineStart}` : "first"}.`,
+			);
+		}
+		Logger.success(
+			`Selection found: lines ${selectionRange.startLine}-${selectionRange.endLine}, cols ${selectionRange.startColumn}-${selectionRange.endColumn} (confidence ${selectionRange.confidence.toFixed(2)})`,
+		);
+		return {
+			lineStart: selectionRange.startLine,
+			lineEnd: selectionRange.endLine,
+			selection: selectionRange,
+		};
+	}
+
+	return { lineStart: options.lineStart, lineEnd: options.lineEnd };
+}
+
+/**
+ * Builds the web URL for a file, line range, branch or view, as the command line does,
+ * without opening it. Progress is logged through Logger; set `Logger.level = "silent"` to mute it.
+ * @throws InvalidOptionsError, NotAGitRepoError, NoRemoteError, UnsupportedProviderError,
+ * PathOutsideRepoError, SelectionNotFoundError, SymbolNotFoundError, FileReadError, PermalinkRefusedError or
+ * CommandFailedError.
+ */
+export async function buildWebUrl(
+	options: WebUrlOptions = {},
+): Promise<ResolvedLocation> {
+	const { filePath, view = "blob", mapLines = true } = options;
+
+	if (options.lineEnd != null && options.lineStart == null) {
+		throw new InvalidOptionsError(
+			"A line end can only be used together with a line start.",
+		);
+	}
+	if (
+		options.lineStart != null &&
+		options.lineEnd != null &&
+		options.lineEnd < options.lineStart
+	) {
+		throw new InvalidOptionsError(
+			`Line end (${options.lineEnd}) must be >= line start (${options.lineStart}).`,
+		);
+	}
+	if (options.symbol != null && options.selection != null) {
+		throw new InvalidOptionsError(
+			"A symbol and a selection cannot be used together.",
+		);
+	}
+	if (options.selection != null && options.matchMode === "regex") {
+		try {
+			new RegExp(options.selection, "gm");
+		} catch (e) {
+			throw new InvalidOptionsError(
+				`Invalid regex selection '${options.selection}': ${e instanceof Error ? e.message : String(e)}`,
+			);
+		}
+	}
+	if (
+		!filePath &&
+		(options.lineStart != null ||
+			options.selection != null ||
+			options.symbol != null)
+	) {
+		throw new InvalidOptionsError(
+			"Line numbers, a selection or a symbol require a file path.",
+		);
+	}
+	if (view === "blame" && !filePath) {
+		throw new InvalidOptionsError("The blame view requires a file path.");
+	}
+	if (view === "commit" && !options.commit) {
+		throw new InvalidOptionsError("The commit view requires a revision.");
+	}
+	if (view === "compare" && !options.compareBase) {
+		throw new InvalidOptionsError("The compare view requires a base revision.");
+	}
+
+	let lineStart: number | undefined;
+	let lineEnd: number | undefined;
+	let selection: SelectionPosition | undefined;
+	if (filePath) {
+		({ lineStart, lineEnd, selection } = await resolveLineRange(
+			filePath,
+			options,
+		));
+	}
+
+	// Link the path within the repository, or submodule, that contains it
+	const repoPath = filePath ? await resolveRepoPath(filePath) : undefined;
+	const repoFilePath = repoPath?.path || undefined;
+	// Git runs in that working tree; the process's working directory is left alone
+	const cwd = repoPath?.toplevel;
+	const {
+		remoteName,
+		repoUrl,
+		provider,
+		providerHostname,
+		ref,
+		currentBranch,
+		fellBackToDefaultBranch,
+	} = await resolveRepoContext(options, {
+		cwd,
+		filePath: repoFilePath,
+		hasLineRange: lineStart != null,
+		submodule: repoPath?.submodule,
+	});
+
+	if (!provider) {
+		// Without a provider, only the repository root can be linked
+		if (
+			repoFilePath ||
+			options.defaultBranch ||
+			options.branch ||
+			options.permalink ||
+			view !== "blob"
+		) {
+			throw new UnsupportedProviderError(providerHostname);
+		}
+		return {
+			url: repoUrl,
+			view,
+			remote: { name: remoteName, url: repoUrl },
+			provider: null,
+			ref,
+			path: null,
+			lines: null,
+		};
+	}
+
+	// Map working-tree line numbers to the lines they correspond to at the linked ref
+	if (
+		mapLines &&
+		repoFilePath &&
+		lineStart != null &&
+		(view === "blob" || view === "blame")
+	) {
+		({ lineStart, lineEnd } = await mapLinesToRef(
+			repoFilePath,
+			ref,
+			remoteName,
+			lineStart,
+			lineEnd,
+			cwd,
+		));
+	}
+
+	// Line number fragment (e.g., #L10-L20) based on provider
+	const fragment =
+		repoFilePath && lineStart != null
+			? provider.lineFragment(lineStart, lineEnd)
+			: "";
+
+	let url = repoUrl; // Default to repo root
+	switch (view) {
+		case "blame":
+			url = `${provider.blameUrl(repoUrl, ref, repoFilePath!)}${fragment}`;
+			break;
+		case "history":
+			url = provider.historyUrl(repoUrl, ref, repoFilePath);
+			break;
+		case "commit": {
+			// Resolve short SHAs and symbolic revs locally; pass unknown revs through as typed
+			const sha =
+				(await resolveCommitSha(options.commit!, undefined, cwd)) ??
+				options.commit!;
+			if (isCommitSha(sha) && !(await isCommitOnRemote(sha, remoteName, cwd))) {
+				Logger.warn(
+					`Commit ${sha.slice(0, 12)} has not been pushed to '${remoteName}'; the page may 404.`,
+				);
+			}
+			url = provider.commitUrl(repoUrl, sha);
+			break;
+		}
+		case "compare":
+			url = provider.compareUrl(repoUrl, options.compareBase!, ref);
+			break;
+		case "pr": {
+			const baseBranch = await getDefaultBranchName(remoteName, cwd);
+			if (fellBackToDefaultBranch || !currentBranch) {
+				throw new InvalidOptionsError(
+					"A pull request needs a branch that has been pushed to the remote.",
+				);
+			}
+			if (ref === baseBranch) {
+				throw new InvalidOptionsError(
+					`'${ref}' is the default branch; there is no pull request to open.`,
+				);
+			}
+			url = provider.pullRequestUrl(repoUrl, ref, baseBranch);
+			break;
+		}
+		default:
+			if (repoFilePath) {
+				url = `${provider.blobUrl(repoUrl, ref, repoFilePath)}${fragment}`;
+			} else if (options.defaultBranch || options.branch || options.permalink) {
+				// If a specific branch or commit is requested (default, -b or --permalink) but no file, open its tree
+				url = provider.treeUrl(repoUrl, ref);
+			} // Otherwise the URL remains repoUrl (repo root of current branch).
+	}
+
+	return {
+		url,
+		view,
+		remote: { name: remoteName, url: repoUrl },
+		provider: provider.type,
+		ref,
+		path: repoFilePath ?? null,
+		lines:
+			repoFilePath && lineStart != null
+				? { start: lineStart, end: lineEnd ?? null }
+				: null,
+		selection: selection && {
+			confidence: selection.confidence,
+			matches: selection.matches,
+		},
+	};
+}
+
+/**
+ * Builds blob (or blame) URLs for many file locations, resolving the remote, provider
+ * and ref once per working tree. Line ranges come from the entries; paths that do not
+ * exist or are outside the repository are skipped with a warning.
+ * @throws The errors of {@link buildWebUrl}.
+ */
+export async function buildWebUrls(
+	entries: BatchEntry[],
+	options: Omit<WebUrlOptions, "filePath" | "lineStart" | "lineEnd"> = {},
+): Promise<ResolvedLocation[]> {
+	const { view = "blob", mapLines = true } = options;
+	if (view !== "blob" && view !== "blame") {
+		throw new InvalidOptionsError(
+			"Batch URLs can only be built for the blob and blame views.",
+		);
+	}
+	if (options.selection != null || options.symbol != null) {
+		throw new InvalidOptionsError(
+			"Batch entries carry their own line numbers; a selection or symbol cannot be used.",
+		);
+	}
+
+	// One context per working tree, so files in submodules use the submodule's remote
+	const contexts = new Map<string, RepoContext>();
+	const results: ResolvedLocation[] = [];
+	for (const entry of entries) {
+		try {
+			await Deno.stat(entry.filePath);
+		} catch (e) {
+			if (!(e instanceof Deno.errors.NotFound)) throw e;
+			Logger.warn(`No such file: ${entry.filePath}. Skipping it.`);
+			continue;
+		}
+		let repoPath: RepoPath;
+		try {
+			repoPath = await resolveRepoPath(entry.filePath);
+		} catch (e) {
+			if (!(e instanceof PathOutsideRepoError)) throw e;
+			Logger.warn(`${e.message} Skipping it.`);
+			continue;
+		}
+		const { toplevel: cwd } = repoPath;
+		let context = contexts.get(cwd);
+		if (!context) {
+			context = await resolveRepoContext(options, {
+				cwd,
+				hasLineRange: false,
+				submodule: repoPath.submodule,
+			});
+			contexts.set(cwd, context);
+		}
+		const { remoteName, repoUrl, provider, providerHostname, ref } = context;
+		if (!provider) throw new UnsupportedProviderError(providerHostname);
+		if (options.permalink) {
+			// The context is shared by the working tree, so each file is checked on its own
+			await checkPermalinkFile(
+				repoPath.path,
+				entry.lineStart != null,
+				options,
+				cwd,
+			);
+		}
+
+		let { lineStart, lineEnd } = entry;
+		if (mapLines && lineStart != null) {
+			({ lineStart, lineEnd } = await mapLinesToRef(
+				repoPath.path,
+				ref,
+				remoteName,
+				lineStart,
+				lineEnd,
+				cwd,
+			));
+		}
+		const fragment =
+			lineStart != null ? provider.lineFragment(lineStart, lineEnd) : "";
+		const url =
+			view === "blame"
+				? provider.blameUrl(repoUrl, ref, repoPath.path)
+				: provider.blobUrl(repoUrl, ref, repoPath.path);
+		results.push({
+			url: `${url}${fragment}`,
+			view,
+			remote: { name: remoteName, url: repoUrl },
+			provider: provider.type,
+			ref,
+			path: repoPath.path,
+			lines:
+				lineStart != null ? { start: lineStart, end: lineEnd ?? null } : null,
+		});
+	}
+	return results;
+}
+// --- End Web URL Builder ---
+
+const USAGE_HINT = "Run 'open_in_web.ts --help' for usage.";
+
+function displayHelp() {
+	// Straight to stdout: --quiet and --log-format json apply to logs, not to help that was asked for
+	console.log(`Deno Script: Open Repository File in Web UI
+Version: 1.1.0
+Author: AI
+
+Opens a file from a Git repository in the provider's web UI (GitHub, GitLab,
+Bitbucket, Gitea/Forgejo, Azure DevOps, including self-hosted and Enterprise hosts).
+If no arguments are provided, opens the repository root.
+
+The remote is the current branch's upstream (branch.<name>.remote), else 'origin'.
+If the current branch has not been pushed there, the default branch is used instead.
+
+Usage:
+  open_in_web.ts [OPTIONS] [FILE_PATH]
+  open_in_web.ts [--edit | --json] <WEB_URL>
+  open_in_web.ts --batch [OPTIONS] [ENTRY...]
+
+Options:
+  -h, --help                 Show this help message.
+  -b, --branch <branch_name> Specify a branch name to use.
+  -d, --default-branch       Use the repository's default branch (from the remote). Overrides -b.
+  -r, --remote <name>        Use this remote instead of the branch's upstream remote or 'origin'.
+  -u, --upstream             Use the remote named 'upstream' (e.g. the parent of a fork).
+  -L, --line-start <number>  Specify the starting line number (1-indexed).
+  -E, --line-end <number>    Specify the ending line number (1-indexed).
+  -s, --selection <text>     Specify a text selection within FILE_PATH to determine line range.
+                             If FILE_PATH is provided, this will attempt to find the selection.
+                             The --line-start option can be used as a hint for the search.
+                             This overrides --line-start/--line-end if selection is found.
+  -S, --symbol <name>        Use the line range of a declaration in FILE_PATH, e.g. a function,
+                             class or method (Class.method). Supports TypeScript/JavaScript,
+                             Python, Go, Rust and shell; other languages need universal-ctags.
+  -m, --match <mode>         How --selection is matched: auto (default: exact, then whitespace,
+                             then fuzzy), exact, whitespace (ignores indentation and spacing),
+                             fuzzy (tolerates small edits) or regex. With several matches, the
+                             one nearest --line-start is used.
+      --min-confidence <n>   Fail if the chosen selection match scores below n (0-1).
+      --blame                Open the blame view of FILE_PATH (honours the line range).
+      --history              Open the commit history of FILE_PATH, or of the branch without one.
+      --commit <rev>         Open a single commit (any revision git understands, e.g. HEAD~2).
+      --compare <base>       Open the diff of the branch against <base>.
+      --pr                   Open the pull/merge request of the current branch, or the page to create one.
+      --print                Print the URL to stdout instead of opening a browser.
+      --copy                 Copy the URL to the clipboard (wl-copy, xclip, xsel or pbcopy).
+      --json                 Print the resolved remote, provider, ref, path and line range as JSON.
+                             --print, --copy and --json can be combined; none opens a browser.
+                             With --json, the JSON is printed instead of the plain URL.
+      --edit                 With WEB_URL, open the file at the line in $VISUAL or $EDITOR.
+      --permalink            Pin the URL to the commit SHA of the branch instead of its name.
+                             Refuses if the commit is not pushed, or if line numbers are given,
+                             the file has uncommitted changes and --no-line-map is set.
+      --no-line-map          Use line numbers as given instead of mapping them from the working
+                             copy to the linked ref (by default, local edits are accounted for).
+      --force                Build the permalink anyway, downgrading those errors to warnings.
+      --batch                Print one URL per ENTRY instead of opening a single file. Entries
+                             come from the arguments ('-' for stdin), --from, or else stdin. The remote and ref
+                             are resolved once; no browser is opened.
+      --from <file>          Read batch entries from a file ('-' for stdin). Implies --batch.
+      --markdown             Print batch results as a Markdown list of links.
+  -q, --quiet                Only print errors.
+  -v, --verbose              Also print debug output, including each git command that is run.
+      --log-level <level>    Lowest level to print: debug, info (default), warn, error or silent.
+      --log-format <format>  text (default) or json: one {time, level, message} record per
+                             line on stderr. Text output has no emoji when NO_COLOR is set or
+                             it is not written to a terminal.
+
+Arguments:
+  FILE_PATH     Optional path to the file, relative to the current directory or absolute
+                (e.g., src/main.ts). Files in a submodule link to the submodule's repository
+                at the commit the superproject pins. Paths outside the repository are rejected.
+  ENTRY         A batch location: path, path:line or path:start-end. Lines of
+                \`git grep -n\` output and compiler diagnostics (path:line:col: message
+                or path(line,col): message) are accepted as well.
+  WEB_URL       A file URL from the web UI. Reverse mode: prints the matching local
+                path:line (or opens it with --edit) and warns if the local file has
+                diverged from the linked ref. The URL must belong to a local remote.
+
+Custom hosts:
+  github.com, gitlab.com, bitbucket.org, codeberg.org, gitea.com and Azure DevOps are
+  recognised automatically. Map any other host to a provider type
+  (github, gitlab, bitbucket, gitea, forgejo, azure) with git config:
+    git config --global openinweb.git.example.com.provider gitlab
+  or in $XDG_CONFIG_HOME/open_in_web/config.json (default ~/.config):
+    { "providers": { "git.example.com": "gitlab" } }
+
+Examples:
+  # Open repository root of the current branch
+  open_in_web.ts
+
+  # Open repository root of the default branch
+  open_in_web.ts --default-branch
+
+  # Open repository root of a specific branch 'develop'
+  open_in_web.ts --branch develop
+
+  # Open a file on the default branch
+  open_in_web.ts -d README.md
+
+  # Open the same file in the parent repository of a fork
+  open_in_web.ts --upstream -d README.md
+
+  # Open a file on a specific branch 'feature/foo' with line numbers
+  open_in_web.ts -b feature/foo src/main.ts --line-start 42 --line-end 50
+
+  # Open a file with a specific text selection (searches from the start of the file)
+  open_in_web.ts src/utils.ts -s "class MyClass"
+
+  # Open a file with a specific text selection, hinting to search around line 10
+  open_in_web.ts src/utils.ts --line-start 10 -s "const myVar"
+
+  # Link a function or method by name
+  open_in_web.ts open_in_web.ts --symbol normalizeRemoteUrl
+  open_in_web.ts jira --symbol JiraClient.createTicket
+
+  # Find a re-indented selection, or one matched by a regular expression
+  open_in_web.ts src/utils.ts -m whitespace -s "  if (x) {"
+  open_in_web.ts src/utils.ts -m regex -s "function \\w+Handler"
+
+  # Copy a link to lines 42-50 instead of opening it (e.g. over SSH)
+  open_in_web.ts src/main.ts -L 42 -E 50 --copy --print
+
+  # Print a permalink that keeps pointing at the same code after the branch moves
+  open_in_web.ts src/main.ts -L 42 --permalink --print
+
+  # Blame lines 10-20, or see who last touched a file
+  open_in_web.ts src/main.ts --blame -L 10 -E 20
+  open_in_web.ts src/main.ts --history
+
+  # Jump from a link pasted in chat to the code
+  open_in_web.ts "https://github.com/owner/repo/blob/main/src/main.ts#L10-L20"
+  open_in_web.ts --edit "https://gitlab.com/group/repo/-/blob/main/src/main.ts#L10-20"
+
+  # Open the last commit, the diff against main, or the pull request for this branch
+  open_in_web.ts --commit HEAD
+  open_in_web.ts --compare main
+  open_in_web.ts --pr
+
+  # Trace the git commands used to build a URL, or log for another program
+  open_in_web.ts --verbose src/main.ts
+  open_in_web.ts --log-format json --print src/main.ts
+
+  # Link every TODO as a Markdown list, or each file from compiler errors
+  git grep -n TODO | open_in_web.ts --batch --markdown
+  deno check main.ts 2>&1 | open_in_web.ts --from - --permalink
+  open_in_web.ts --batch src/main.ts:10-20 src/utils.ts:5
+`);
+}
+
+/**
+ * Main application logic: parses flags, then prints, copies or opens the URL.
+ * @returns The process exit code.
+ */
+async function runCli(args: string[]): Promise<number> {
+	const rawArgs = configureLogging([...args]); // Get command line arguments, applying logging flags first
+	let branchFromArg: string | undefined;
+	let useDefaultBranch = false;
+	let selectionTextFromArg: string | undefined;
+	let parsedLineStart: number | undefined;
+	let parsedLineEnd: number | undefined;
+	let printUrl = false;
+	let copyUrl = false;
+	let outputJson = false;
+	let usePermalink = false;
+	let force = false;
+	let remoteFromArg: string | undefined;
+	let useUpstreamRemote = false;
+	const views: ViewMode[] = [];
+	let commitFromArg: string | undefined;
+	let compareBaseFromArg: string | undefined;
+	let openEditor = false;
+	let mapLines = true;
+	let matchMode: SelectionMatchMode = "auto";
+	let minConfidence = 0;
+	let symbolFromArg: string | undefined;
+	let batchMode = false;
+	let batchFromFile: string | undefined;
+	let markdownList = false;
+	const positionalArgs: string[] = []; // For FILE_PATH
+	// Early check for help flag
+
+	if (rawArgs.includes("-h") || rawArgs.includes("--help")) {
+		displayHelp();
+		return 0;
+	} // Parse named arguments
+
+	for (let i = 0; i < rawArgs.length; i++) {
+		const arg = rawArgs[i];
+		if (arg === "--branch" || arg === "-b") {
+			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
+				branchFromArg = rawArgs[i + 1];
+				i++;
+			} else {
+				throw new InvalidOptionsError(
+					`Branch name missing after ${arg} flag.`,
+					{ hint: USAGE_HINT },
+				);
+			}
+		} else if (arg === "--default-branch" || arg === "-d") {
+			useDefaultBranch = true;
+		} else if (arg === "--print") {
+			printUrl = true;
+		} else if (arg === "--copy") {
+			copyUrl = true;
+		} else if (arg === "--json") {
+			outputJson = true;
+		} else if (arg === "--remote" || arg === "-r") {
+			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
+				remoteFromArg = rawArgs[i + 1];
+				i++;
+			} else {
+				throw new InvalidOptionsError(
+					`Remote name missing after ${arg} flag.`,
+					{ hint: USAGE_HINT },
+				);
+			}
+		} else if (arg === "--upstream" || arg === "-u") {
+			useUpstreamRemote = true;
+		} else if (arg === "--blame") {
+			views.push("blame");
+		} else if (arg === "--history") {
+			views.push("history");
+		} else if (arg === "--pr") {
+			views.push("pr");
+		} else if (arg === "--commit" || arg === "--compare") {
+			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
+				if (arg === "--commit") {
+					commitFromArg = rawArgs[i + 1];
+					views.push("commit");
+				} else {
+					compareBaseFromArg = rawArgs[i + 1];
+					views.push("compare");
+				}
+				i++;
+			} else {
+				throw new InvalidOptionsError(`Revision missing after ${arg} flag.`, {
+					hint: USAGE_HINT,
+				});
+			}
+		} else if (arg === "--match" || arg === "-m") {
+			const value = rawArgs[i + 1];
+			if (!["auto", "exact", "whitespace", "fuzzy", "regex"].includes(value)) {
+				throw new InvalidOptionsError(
+					`${arg} must be one of: auto, exact, whitespace, fuzzy, regex.`,
+				);
+			}
+			matchMode = value as SelectionMatchMode;
+			i++;
+		} else if (arg === "--symbol" || arg === "-S") {
+			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
+				symbolFromArg = rawArgs[i + 1];
+				i++;
+			} else {
+				throw new InvalidOptionsError(
+					`Symbol name missing after ${arg} flag.`,
+					{ hint: USAGE_HINT },
+				);
+			}
+		} else if (arg === "--min-confidence") {
+			minConfidence = parseFloat(rawArgs[i + 1]);
+			if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+				throw new InvalidOptionsError(
+					`Value for ${arg} must be a number between 0 and 1.`,
+				);
+			}
+			i++;
+		} else if (arg === "--batch") {
+			batchMode = true;
+		} else if (arg === "--from") {
+			if (i + 1 < rawArgs.length) {
+				batchFromFile = rawArgs[i + 1];
+				batchMode = true;
+				i++;
+			} else {
+				throw new InvalidOptionsError(`File path missing after ${arg} flag.`, {
+					hint: USAGE_HINT,
+				});
+			}
+		} else if (arg === "--markdown") {
+			markdownList = true;
+		} else if (arg === "--no-line-map") {
+			mapLines = false;
+		} else if (arg === "--edit") {
+			openEditor = true;
+		} else if (arg === "--permalink") {
+			usePermalink = true;
+		} else if (arg === "--force") {
+			force = true;
+		} else if (arg === "--selection" || arg === "-s") {
+			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
+				selectionTextFromArg = rawArgs[i + 1];
+				if (selectionTextFromArg.trim().length === 0) {
+					Logger.error(`Selection text missing after ${arg} flag.`);
+					selectionTextFromArg = undefined;
+				}
+				i++;
+			} else {
+				throw new InvalidOptionsError(
+					`Selection text missing after ${arg} flag.`,
+					{ hint: USAGE_HINT },
+				);
+			}
+		} else if (arg === "--line-start" || arg === "-L") {
+			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
+				parsedLineStart = parseInt(rawArgs[i + 1], 10);
+				if (isNaN(parsedLineStart) || parsedLineStart <= 0) {
+					throw new InvalidOptionsError(
+						`Value for ${arg} must be a positive number.`,
+					);
+				}
+				i++;
+			} else {
+				throw new InvalidOptionsError(
+					`Line number missing after ${arg} flag.`,
+					{ hint: USAGE_HINT },
+				);
+			}
+		} else if (arg === "--line-end" || arg === "-E") {
+			if (i + 1 < rawArgs.length && !rawArgs[i + 1].startsWith("-")) {
+				parsedLineEnd = parseInt(rawArgs[i + 1], 10);
+				if (isNaN(parsedLineEnd) || parsedLineEnd <= 0) {
+					throw new InvalidOptionsError(
+						`Value for ${arg} must be a positive number.`,
+					);
+				}
+				i++;
+			} else {
+				throw new InvalidOptionsError(
+					`Line number missing after ${arg} flag.`,
+					{ hint: USAGE_HINT },
+				);
+			}
+		} else {
+			positionalArgs.push(arg);
+		}
+	} // Assign positional argument
+
+	if (printUrl || outputJson || batchMode) Logger.useStderr = true; // Keep stdout clean for the URL/JSON
+
+	if (views.length > 1) {
+		throw new InvalidOptionsError(
+			"Only one of --blame, --history, --commit, --compare and --pr can be used.",
+		);
+	}
+	const view: ViewMode = views[0] ?? "blob";
+
+	if (markdownList && !batchMode) {
+		throw new InvalidOptionsError("--markdown can only be used with --batch.");
+	}
+	if (!batchMode && positionalArgs.length > 1) {
+		throw new InvalidOptionsError(
+			"Too many file path arguments provided. Only one is allowed.",
+			{ hint: USAGE_HINT },
+		);
+	}
+	const filePath: string | undefined = batchMode
+		? undefined
+		: positionalArgs[0]; // A web URL instead of a file path switches to reverse mode
+
+	if (filePath && /^https?:\/\//.test(filePath)) {
+		return await runReverse(filePath, { edit: openEditor, outputJson });
+	}
+	if (openEditor) {
+		throw new InvalidOptionsError("--edit can only be used with a web URL.");
+	}
+
+	const options: WebUrlOptions = {
+		filePath,
+		branch: branchFromArg,
+		defaultBranch: useDefaultBranch,
+		remote: remoteFromArg,
+		upstream: useUpstreamRemote,
+		lineStart: parsedLineStart,
+		lineEnd: parsedLineEnd,
+		selection: selectionTextFromArg,
+		matchMode,
+		minConfidence,
+		symbol: symbolFromArg,
+		view,
+		commit: commitFromArg,
+		compareBase: compareBaseFromArg,
+		permalink: usePermalink,
+		force,
+		mapLines,
+	};
+
+	if (batchMode) {
+		if (parsedLineStart != null) {
+			throw new InvalidOptionsError(
+				"--batch takes line numbers from its entries; --line-start, --selection and --symbol cannot be used.",
+			);
+		}
+		const entries = await readBatchEntries(positionalArgs, batchFromFile);
+		if (entries.length === 0) {
+			throw new InvalidOptionsError(
+				"No file locations found in the batch input.",
+			);
+		}
+		const results = await buildWebUrls(entries, options);
+		const output = outputJson
+			? JSON.stringify(results, null, 2)
+			: results
+					.map((result) => {
+						if (!markdownList) return result.url;
+						const label = result.lines
+							? `${result.path}:${result.lines.start}${result.lines.end != null ? `-${result.lines.end}` : ""}`
+							: result.path;
+						return `- [${label}](${result.url})`;
+					})
+					.join("\n");
+		console.log(output);
+		if (copyUrl) {
+			const clipboardCmd = await copyToClipboard(output);
+			if (!clipboardCmd) {
+				Logger.error(
+					"No clipboard command found (tried wl-copy, xclip, xsel, pbcopy).",
+				);
+				return 1;
+			}
+			Logger.success(
+				`${results.length} URL${results.length === 1 ? "" : "s"} copied to clipboard via ${clipboardCmd}.`,
+			);
+		}
+		return 0;
+	}
+
+	const resolved = await buildWebUrl(options);
+	const finalUrlToOpen = resolved.url;
+
+	if (outputJson) {
+		console.log(JSON.stringify(resolved, null, 2));
+	} else if (printUrl) {
+		console.log(finalUrlToOpen);
+	}
+
+	if (copyUrl) {
+		const clipboardCmd = await copyToClipboard(finalUrlToOpen);
+		if (clipboardCmd) {
+			Logger.success(`URL copied to clipboard via ${clipboardCmd}.`);
+		} else {
+			Logger.error(
+				"No clipboard command found (tried wl-copy, xclip, xsel, pbcopy).",
+			);
+			Logger.hint(`Copy the URL manually: ${finalUrlToOpen}`);
+			return 1;
+		}
+	}
+
+	if (printUrl || copyUrl || outputJson) return 0;
+
+	Logger.debug(`Opening: ${finalUrlToOpen}`);
+	await openInBrowser(finalUrlToOpen);
+	return 0;
+}
+
+/**
+ * Command-line entry point. Reports the library's errors with their hints.
+ * @param args Command-line arguments (defaults to Deno.args).
+ * @returns The process exit code.
+ */
+export async function main(args: string[] = Deno.args): Promise<number> {
+	try {
+		return await runCli(args);
+	} catch (e) {
+		if (!(e instanceof OpenInWebError)) throw e;
+		Logger.error(e.message);
+		if (e.hint) Logger.hint(e.hint);
+		return e instanceof CommandFailedError ? e.code : 1;
+	}
+}
+
+// Script entry point
+if (import.meta.main) {
+	main()
+		.then((code) => Deno.exit(code))
+		.catch((err) => {
+			// Catch unhandled errors from main()
+			Logger.error(
+				"Unhandled error in main execution:",
+				err instanceof Error ? err.message : String(err),
+			);
+			if (err instanceof Error && err.stack) {
+				// Optionally log stack trace for debugging (might be too verbose for users)
+				console.error("Stack trace:", err.stack);
+			}
+			Deno.exit(1); // Exit with error code
+		});
 }
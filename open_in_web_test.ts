@@ -0,0 +1,230 @@
+import {
+	assertEquals,
+	assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+	buildWebUrl,
+	buildWebUrls,
+	Logger,
+	NoRemoteError,
+	NotAGitRepoError,
+	parseBatchEntry,
+	PermalinkRefusedError,
+	SelectionNotFoundError,
+	UnsupportedProviderError,
+} from "./open_in_web.ts";
+
+Logger.level = "silent";
+
+const GIT_ENV = {
+	GIT_AUTHOR_NAME: "Test",
+	GIT_AUTHOR_EMAIL: "test@example.com",
+	GIT_COMMITTER_NAME: "Test",
+	GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+	const { success, stdout, stderr } = await new Deno.Command("git", {
+		args,
+		cwd,
+		env: GIT_ENV,
+	}).output();
+	if (!success) {
+		throw new Error(
+			`git ${args.join(" ")} failed: ${new TextDecoder().decode(stderr)}`,
+		);
+	}
+	return new TextDecoder().decode(stdout).trim();
+}
+
+/**
+ * Creates a repository on branch 'main' with one commit of src/main.ts. With a remote URL,
+ * 'origin' points there, while pushes go to a local bare repository acting as the remote.
+ */
+async function createRepo(remoteUrl?: string): Promise<string> {
+	const dir = await Deno.makeTempDir({ prefix: "open_in_web_test_" });
+	await git(dir, "init", "--quiet", "--initial-branch=main", "repo");
+	const repo = `${dir}/repo`;
+	await Deno.mkdir(`${repo}/src`);
+	await Deno.writeTextFile(
+		`${repo}/src/main.ts`,
+		'export function main() {\n\tconsole.log("hello");\n}\n',
+	);
+	await git(repo, "add", ".");
+	await git(repo, "commit", "--quiet", "--message", "Initial commit");
+	if (remoteUrl) {
+		await git(dir, "init", "--quiet", "--bare", "remote.git");
+		await git(repo, "remote", "add", "origin", remoteUrl);
+		await git(repo, "config", `url.${dir}/remote.git.pushInsteadOf`, remoteUrl);
+		await git(repo, "push", "--quiet", "--set-upstream", "origin", "main");
+	}
+	return repo;
+}
+
+/** Runs `fn` with `dir` as the working directory, then removes the directory's parent. */
+async function inDir<T>(dir: string, fn: () => Promise<T>): Promise<T> {
+	const previous = Deno.cwd();
+	Deno.chdir(dir);
+	try {
+		return await fn();
+	} finally {
+		Deno.chdir(previous);
+		await Deno.remove(dir.replace(/\/repo$/, ""), { recursive: true });
+	}
+}
+
+Deno.test(
+	"buildWebUrl throws NotAGitRepoError outside a repository",
+	async () => {
+		const dir = await Deno.makeTempDir({ prefix: "open_in_web_test_" });
+		await inDir(dir, () =>
+			assertRejects(() => buildWebUrl(), NotAGitRepoError),
+		);
+	},
+);
+
+Deno.test("buildWebUrl throws NoRemoteError without remotes", async () => {
+	await inDir(await createRepo(), () =>
+		assertRejects(
+			() => buildWebUrl({ filePath: "src/main.ts" }),
+			NoRemoteError,
+		),
+	);
+});
+
+Deno.test(
+	"buildWebUrl throws UnsupportedProviderError for unknown hosts",
+	async () => {
+		await inDir(
+			await createRepo("https://git.example.com/owner/repo.git"),
+			() =>
+				assertRejects(
+					() => buildWebUrl({ filePath: "src/main.ts" }),
+					UnsupportedProviderError,
+				),
+		);
+	},
+);
+
+Deno.test(
+	"buildWebUrl throws SelectionNotFoundError for missing text",
+	async () => {
+		await inDir(await createRepo("https://github.com/owner/repo.git"), () =>
+			assertRejects(
+				() =>
+					buildWebUrl({
+						filePath: "src/main.ts",
+						selection: "not in the file",
+					}),
+				SelectionNotFoundError,
+			),
+		);
+	},
+);
+
+Deno.test("buildWebUrl links the branch with the selected lines", async () => {
+	await inDir(
+		await createRepo("https://github.com/owner/repo.git"),
+		async () => {
+			const result = await buildWebUrl({
+				filePath: "src/main.ts",
+				selection: 'console.log("hello");',
+			});
+			assertEquals(
+				result.url,
+				"https://github.com/owner/repo/blob/main/src/main.ts#L2-L2",
+			);
+			assertEquals(result.ref, "main");
+			assertEquals(result.provider, "github");
+		},
+	);
+});
+
+Deno.test("buildWebUrl pins permalinks to the pushed commit", async () => {
+	const repo = await createRepo("git@gitlab.com:owner/repo.git");
+	const sha = await git(repo, "rev-parse", "HEAD");
+	await inDir(repo, async () => {
+		const result = await buildWebUrl({
+			filePath: "src/main.ts",
+			lineStart: 1,
+			lineEnd: 3,
+			permalink: true,
+		});
+		assertEquals(
+			result.url,
+			`https://gitlab.com/owner/repo/-/blob/${sha}/src/main.ts#L1-3`,
+		);
+		assertEquals(result.ref, sha);
+	});
+});
+
+Deno.test("buildWebUrl leaves the working directory alone", async () => {
+	const repo = await createRepo("https://github.com/owner/repo.git");
+	await Deno.mkdir(`${repo}/sub`);
+	await inDir(repo, async () => {
+		Deno.chdir("sub");
+		const cwd = Deno.cwd();
+		const results = await Promise.all(
+			[1, 2, 3].map((line) =>
+				buildWebUrl({ filePath: "../src/main.ts", lineStart: line }),
+			),
+		);
+		assertEquals(Deno.cwd(), cwd);
+		assertEquals(
+			results.map((result) => result.url),
+			[1, 2, 3].map(
+				(line) =>
+					`https://github.com/owner/repo/blob/main/src/main.ts#L${line}`,
+			),
+		);
+	});
+});
+
+Deno.test(
+	"parseBatchEntry reads grep lines with parentheses in the text",
+	() => {
+		assertEquals(parseBatchEntry("src/a.ts:12:  // TODO(1234)"), {
+			filePath: "src/a.ts",
+			lineStart: 12,
+			lineEnd: undefined,
+		});
+		assertEquals(
+			parseBatchEntry("src/a.ts(7,3): error TS2304: Cannot find name"),
+			{
+				filePath: "src/a.ts",
+				lineStart: 7,
+			},
+		);
+		assertEquals(parseBatchEntry("C:\\src\\a.cs(7,3): warning CS0168"), {
+			filePath: "C:\\src\\a.cs",
+			lineStart: 7,
+		});
+	},
+);
+
+Deno.test(
+	"buildWebUrls refuses permalinks to lines of changed files",
+	async () => {
+		const repo = await createRepo("https://github.com/owner/repo.git");
+		const sha = await git(repo, "rev-parse", "HEAD");
+		await Deno.writeTextFile(`${repo}/src/main.ts`, "// Changed\n", {
+			append: true,
+		});
+		await inDir(repo, async () => {
+			const entries = [{ filePath: "src/main.ts", lineStart: 2 }];
+			await assertRejects(
+				() => buildWebUrls(entries, { permalink: true, mapLines: false }),
+				PermalinkRefusedError,
+			);
+			const [result] = await buildWebUrls(entries, {
+				permalink: true,
+				mapLines: false,
+				force: true,
+			});
+			assertEquals(
+				result.url,
+				`https://github.com/owner/repo/blob/${sha}/src/main.ts#L2`,
+			);
+		});
+	},
+);